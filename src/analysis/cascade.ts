@@ -0,0 +1,416 @@
+import { Expression, FnDeclStmt, FnExpr, Program, Span, Statement, StructField, StructStmt, TypeExpr } from "../core/ast.js"
+import { Diagnostic } from "../core/errors.js"
+import { Type, alwaysReturns, stripNull } from "./types.js"
+
+// Whether an expression can evaluate to null. "unknown" means the analysis has
+// no information (e.g. array elements) and must not produce a warning.
+type Nullness = "never" | "maybe" | "always" | "unknown"
+
+interface VarInfo {
+  type?: string
+  nullness: Nullness
+}
+
+interface FnInfo {
+  nullness: Nullness
+  type?: string
+}
+
+interface MandatoryWrite {
+  span: Span
+  owners: string[]
+  field: string
+  nullness: Nullness
+  literal: boolean
+  // left out of a `new T { ... }` literal
+  omitted?: boolean
+}
+
+export interface CascadeReport {
+  diagnostics: Diagnostic[]
+  // struct name -> struct types whose objects may be deleted when one of its objects is
+  blastRadius: Map<string, string[]>
+}
+
+const ANY_TYPE = "*"
+// type of numbers, strings and booleans, which never take part in cascades
+const PRIMITIVE = "#primitive"
+const NULL_BUILTINS = new Set(["println", "assert"])
+
+class Scope {
+  private vars = new Map<string, VarInfo>()
+  // set for branch, loop and function bodies: writes through them may not happen
+  constructor(public readonly parent?: Scope, public readonly conditional = false) {}
+
+  lookup(name: string): VarInfo | undefined { return this.vars.get(name) ?? this.parent?.lookup(name) }
+
+  declare(name: string, info: VarInfo) { this.vars.set(name, info) }
+
+  assign(name: string, info: VarInfo, definite = true): void {
+    if (this.vars.has(name)) {
+      this.vars.set(name, definite ? info : joinVar(this.vars.get(name)!, info))
+      return
+    }
+    if (this.parent) return this.parent.assign(name, info, definite && !this.conditional)
+    this.vars.set(name, info)
+  }
+}
+
+function join(a: Nullness, b: Nullness): Nullness {
+  if (a === b) return a
+  if (a === "unknown" || b === "unknown") return "unknown"
+  return "maybe"
+}
+
+function joinVar(a: VarInfo, b: VarInfo): VarInfo {
+  return { type: a.type === b.type ? a.type : undefined, nullness: join(a.nullness, b.nullness) }
+}
+
+// Deleting the object held in the field deletes the owner.
+function cascades(f: StructField): boolean {
+  return (f.policy ?? (f.optional ? "nullify" : "cascade")) === "cascade"
+}
+
+// Finds assignments and `new T { ... }` literals that may store null into a
+// mandatory field, and computes for every struct which other struct types a
+// deletion can cascade into. When the inferred `types` of the type checker are
+// given they fill in receivers and nullability the local analysis can't see.
+export function checkCascades(program: Program, types?: Map<Expression, Type>): CascadeReport {
+  return new CascadeChecker(program, types).check()
+}
+
+class CascadeChecker {
+  private structs = new Map<string, StructStmt>()
+  private fns = new Map<string, FnInfo>()
+  // owner type -> mandatory field -> struct types stored in it
+  private edges = new Map<string, Map<string, Set<string>>>()
+  // owner type -> types of the objects its annotated owned fields hold
+  private owns = new Map<string, Set<string>>()
+  private writes: MandatoryWrite[] = []
+  private returns: { nullness?: Nullness; types: Set<string | undefined> }[] = []
+  private recording = false
+
+  constructor(private program: Program, private types?: Map<Expression, Type>) {}
+
+  check(): CascadeReport {
+    for (const stmt of this.program.statements) this.collect(stmt)
+    // function results depend on each other; iterate until they settle
+    for (let i = 0; i < 8; i++) {
+      const before = JSON.stringify([...this.fns])
+      this.walkProgram()
+      if (JSON.stringify([...this.fns]) === before) break
+    }
+    this.recording = true
+    this.walkProgram()
+
+    const blastRadius = this.computeBlastRadius()
+    const diagnostics: Diagnostic[] = []
+    const file = this.program.file
+    for (const w of this.writes) {
+      if (w.omitted) {
+        diagnostics.push({ severity: "warning", code: "mandatory-null", message: `Mandatory field '${w.field}' of ${w.owners[0]} is left out of the literal and stays null`, span: w.span, file })
+        continue
+      }
+      if (w.nullness !== "always" && w.nullness !== "maybe") continue
+      const owner = w.owners.join(" or ")
+      const reach = new Set(w.owners.flatMap(o => blastRadius.get(o) ?? []))
+      const suffix = reach.size ? ` (cascades to: ${[...reach].sort().join(", ")})` : ""
+      const message = w.nullness === "always"
+        ? `${w.literal ? "Initializing" : "Setting"} mandatory field '${w.field}' of ${owner} to null deletes the object${suffix}`
+        : `Value stored in mandatory field '${w.field}' of ${owner} may be null, which would delete the object${suffix}`
+      diagnostics.push({ severity: "warning", code: "mandatory-null", message, span: w.span, file })
+    }
+    for (const [name, reach] of blastRadius) {
+      if (!reach.length) continue
+      const span = this.structs.get(name)!.span
+      diagnostics.push({ severity: "info", code: "blast-radius", message: `Deleting a ${name} may cascade to: ${reach.join(", ")}`, span, file })
+    }
+    diagnostics.sort((a, b) => (a.span!.line - b.span!.line) || (a.span!.column - b.span!.column))
+    return { diagnostics, blastRadius }
+  }
+
+  private collect(stmt: Statement) {
+    if (stmt.kind === "StructStmt") { this.structs.set(stmt.name, stmt); if (stmt.onDelete) this.collect(stmt.onDelete.body) }
+    else if (stmt.kind === "FnDeclStmt") {
+      const key = stmt.receiver ? `${stmt.receiver}.${stmt.name}` : stmt.name
+      if (!this.fns.has(key)) this.fns.set(key, { nullness: "never" })
+      this.collect(stmt.body)
+    } else if (stmt.kind === "BlockStmt") stmt.statements.forEach(s => this.collect(s))
+    else if (stmt.kind === "IfStmt") { this.collect(stmt.thenBranch); if (stmt.elseBranch) this.collect(stmt.elseBranch) }
+    else if (stmt.kind === "WhileStmt" || stmt.kind === "ForStmt" || stmt.kind === "ForInStmt") this.collect(stmt.body)
+    else if (stmt.kind === "AtomicStmt") this.collect(stmt.body)
+    else if (stmt.kind === "TryStmt") [stmt.body, stmt.handler?.body, stmt.finalizer].forEach(b => b && this.collect(b))
+  }
+
+  private walkProgram() {
+    this.writes = []
+    this.edges.clear()
+    this.owns.clear()
+    // annotated cascade fields name the type they hold
+    for (const struct of this.structs.values()) {
+      for (const f of struct.fields) {
+        if (f.owned && f.type) this.addOwned(struct.name, f.type)
+        if (!cascades(f) || !f.type) continue
+        let target = f.type.kind === "NullableType" ? f.type.inner : f.type
+        // deleting an element of a `[T]!` array (or `#{T}!` map) deletes the
+        // container, then its owner
+        if (target.kind === "ArrayType" && target.elements === "cascade") target = target.element
+        if (target.kind === "MapType" && target.elements === "cascade") target = target.value
+        if (target.kind === "NamedType" && this.structs.has(target.name)) this.addEdge(struct.name, f.name, target.name)
+      }
+    }
+    const scope = new Scope()
+    for (const stmt of this.program.statements) this.walk(stmt, scope)
+  }
+
+  private walk(stmt: Statement, scope: Scope) {
+    switch (stmt.kind) {
+      case "LetStmt":
+        scope.declare(stmt.name, stmt.value ? this.infer(stmt.value, scope) : { nullness: "always" })
+        return
+      case "AssignStmt": {
+        const value: Expression = stmt.value ?? { kind: "NullLit", span: stmt.span }
+        const info = this.infer(value, scope)
+        const target = stmt.target
+        if (target.kind === "IdentTarget") scope.assign(target.name, info)
+        else if (target.kind === "AccessExpr") {
+          const baseType = this.infer(target.base, scope).type
+          this.storeField(baseType, target.prop, info, stmt.span, false)
+        } else {
+          this.infer(target.base, scope)
+          this.infer(target.index, scope)
+        }
+        return
+      }
+      case "PrintStmt": this.infer(stmt.expr, scope); return
+      case "ExprStmt": this.infer(stmt.expr, scope); return
+      case "BlockStmt": {
+        const inner = new Scope(scope)
+        for (const s of stmt.statements) this.walk(s, inner)
+        return
+      }
+      case "IfStmt":
+        this.infer(stmt.condition, scope)
+        this.walk(stmt.thenBranch, new Scope(scope, true))
+        if (stmt.elseBranch) this.walk(stmt.elseBranch, new Scope(scope, true))
+        return
+      case "WhileStmt":
+        this.infer(stmt.condition, scope)
+        this.walk(stmt.body, new Scope(scope, true))
+        return
+      case "ForStmt": {
+        // the init always runs, the rest may not
+        const loop = new Scope(scope)
+        if (stmt.init) this.walk(stmt.init, loop)
+        if (stmt.condition) this.infer(stmt.condition, loop)
+        const body = new Scope(loop, true)
+        this.walk(stmt.body, body)
+        if (stmt.update) this.walk(stmt.update, body)
+        return
+      }
+      case "ThrowStmt": this.infer(stmt.value, scope); return
+      case "TryStmt":
+        // the body may stop at any statement and the handler may not run
+        this.walk(stmt.body, new Scope(scope, true))
+        if (stmt.handler) {
+          const inner = new Scope(scope, true)
+          inner.declare(stmt.handler.name, { nullness: "unknown" })
+          this.walk(stmt.handler.body, inner)
+        }
+        if (stmt.finalizer) this.walk(stmt.finalizer, scope)
+        return
+      case "ForInStmt": {
+        this.infer(stmt.iterable, scope)
+        const inner = new Scope(scope, true)
+        for (const name of stmt.names) inner.declare(name, { nullness: "unknown" })
+        this.walk(stmt.body, inner)
+        return
+      }
+      case "FnDeclStmt": this.walkFn(stmt, scope); return
+      // the block may be rolled back
+      case "AtomicStmt": this.walk(stmt.body, new Scope(scope, true)); return
+      case "DeleteStmt": this.infer(stmt.target, scope); return
+      case "ReturnStmt": {
+        const frame = this.returns[this.returns.length - 1]
+        const info: VarInfo = stmt.value ? this.infer(stmt.value, scope) : { nullness: "always" }
+        if (frame) {
+          frame.nullness = frame.nullness ? join(frame.nullness, info.nullness) : info.nullness
+          frame.types.add(info.type)
+        }
+        return
+      }
+      case "StructStmt": {
+        if (!stmt.onDelete) return
+        // handlers run only when a cascade reaches them
+        const inner = new Scope(scope, true)
+        stmt.onDelete.params.forEach((p, i) => inner.declare(p.name, { nullness: "never", type: i === 0 ? stmt.name : undefined }))
+        this.returns.push({ types: new Set() })
+        try { this.walk(stmt.onDelete.body, inner) } finally { this.returns.pop() }
+        return
+      }
+    }
+  }
+
+  // methods are kept as "Struct.name", which no plain function can be called
+  private walkFn(stmt: FnDeclStmt, scope: Scope) {
+    this.fns.set(stmt.receiver ? `${stmt.receiver}.${stmt.name}` : stmt.name, this.walkFunction(stmt, scope, stmt.receiver))
+  }
+
+  private walkFunction(fn: FnDeclStmt | FnExpr, scope: Scope, self?: string): FnInfo {
+    const inner = new Scope(scope, true)
+    fn.params.forEach((p, i) => inner.declare(p.name, i === 0 && self ? { nullness: "never", type: self } : { nullness: "unknown" }))
+    this.returns.push({ types: new Set() })
+    let frame
+    try {
+      this.walk(fn.body, inner)
+    } finally {
+      frame = this.returns.pop()!
+    }
+    let nullness = frame.nullness ?? "always"
+    if (!alwaysReturns(fn.body)) nullness = frame.nullness ? join(nullness, "always") : "always"
+    const types = [...frame.types]
+    return { nullness, type: types.length === 1 ? types[0] : undefined }
+  }
+
+  private storeField(baseType: string | undefined, field: string, info: VarInfo, span: Span, literal: boolean) {
+    if (!this.recording) return
+    const owners = this.owners(baseType, field, f => !f.optional)
+    if (owners.length) this.writes.push({ span, owners, field, nullness: info.nullness, literal })
+    if (info.nullness === "always" || info.type === PRIMITIVE) return
+    for (const owner of this.owners(baseType, field, cascades)) {
+      const annotated = this.structs.get(owner)!.fields.some(f => f.name === field && f.type)
+      if (!annotated) this.addEdge(owner, field, info.type ?? ANY_TYPE)
+    }
+  }
+
+  private addOwned(owner: string, type: TypeExpr): void {
+    if (type.kind === "NullableType") return this.addOwned(owner, type.inner)
+    if (type.kind === "ArrayType" || type.kind === "MapType") return this.addOwned(owner, type.kind === "ArrayType" ? type.element : type.value)
+    if (!this.structs.has(type.name)) return
+    const owned = this.owns.get(owner) ?? new Set<string>()
+    owned.add(type.name)
+    this.owns.set(owner, owned)
+  }
+
+  private addEdge(owner: string, field: string, target: string) {
+    const fields = this.edges.get(owner) ?? new Map<string, Set<string>>()
+    const targets = fields.get(field) ?? new Set<string>()
+    targets.add(target)
+    fields.set(field, targets)
+    this.edges.set(owner, fields)
+  }
+
+  // Struct types whose `field` satisfies `test` (is mandatory, cascades...).
+  // Without a known receiver type the field counts only if every struct that
+  // declares it satisfies `test`.
+  private owners(baseType: string | undefined, field: string, test: (f: StructField) => boolean): string[] {
+    if (baseType) {
+      const f = this.structs.get(baseType)?.fields.find(f => f.name === field)
+      return f && test(f) ? [baseType] : []
+    }
+    const declaring = [...this.structs.values()].filter(s => s.fields.some(f => f.name === field))
+    if (!declaring.length || declaring.some(s => !test(s.fields.find(f => f.name === field)!))) return []
+    return declaring.map(s => s.name)
+  }
+
+  private infer(expr: Expression, scope: Scope): VarInfo {
+    const info = this.inferLocal(expr, scope)
+    const typed = this.types?.get(expr)
+    if (!typed) return info
+    const base = stripNull(typed)
+    const type = info.type ?? (base.kind === "struct" ? base.name : base.kind === "number" || base.kind === "string" || base.kind === "bool" ? PRIMITIVE : undefined)
+    let nullness = info.nullness
+    if (nullness === "unknown" && typed.kind !== "any") nullness = typed.kind === "null" ? "always" : typed.kind === "nullable" ? "maybe" : "never"
+    return { type, nullness }
+  }
+
+  private inferLocal(expr: Expression, scope: Scope): VarInfo {
+    switch (expr.kind) {
+      case "NullLit": return { nullness: "always" }
+      case "NumberLit":
+      case "StringLit":
+      case "BoolLit":
+        return { type: PRIMITIVE, nullness: "never" }
+      case "IdentExpr": return scope.lookup(expr.name) ?? { nullness: "unknown" }
+      case "ArrayLit":
+        expr.elements.forEach(e => e && this.infer(e, scope))
+        return { nullness: "never" }
+      case "MapLit":
+        expr.entries.forEach(e => this.infer(e.value, scope))
+        return { nullness: "never" }
+      case "ObjectLit":
+        for (const p of expr.props) {
+          const info: VarInfo = p.value ? this.infer(p.value, scope) : { nullness: "always" }
+          if (expr.typeName) this.storeField(expr.typeName, p.key, info, p.value?.span ?? p.span, true)
+        }
+        // a mandatory(nullify) field may be null, so it may be left out too
+        for (const f of this.structs.get(expr.typeName!)?.fields ?? []) {
+          if (this.recording && !f.optional && f.policy !== "nullify" && !expr.props.some(p => p.key === f.name)) {
+            this.writes.push({ span: expr.span, owners: [expr.typeName!], field: f.name, nullness: "always", literal: true, omitted: true })
+          }
+        }
+        return { type: expr.typeName, nullness: "never" }
+      case "AccessExpr": {
+        const base = this.infer(expr.base, scope)
+        if (!base.type) return { nullness: "unknown" }
+        const field = this.structs.get(base.type)?.fields.find(f => f.name === expr.prop)
+        return { nullness: field && !field.optional ? "never" : "maybe" }
+      }
+      case "IndexExpr":
+        this.infer(expr.base, scope)
+        this.infer(expr.index, scope)
+        return { nullness: "unknown" }
+      case "TemplateExpr":
+        expr.exprs.forEach(e => this.infer(e, scope))
+        return { type: PRIMITIVE, nullness: "never" }
+      case "FnExpr":
+        this.walkFunction(expr, scope)
+        return { nullness: "never" }
+      case "CallExpr": {
+        expr.args.forEach(a => this.infer(a, scope))
+        if (expr.callee.kind === "AccessExpr") {
+          const base = this.infer(expr.callee.base, scope)
+          const method = base.type && this.fns.get(`${base.type}.${expr.callee.prop}`)
+          if (method) return { ...method }
+        }
+        if (expr.callee.kind !== "IdentExpr") { this.infer(expr.callee, scope); return { nullness: "unknown" } }
+        const fn = this.fns.get(expr.callee.name)
+        if (fn) return { ...fn }
+        return { nullness: NULL_BUILTINS.has(expr.callee.name) ? "always" : "unknown" }
+      }
+      case "UnaryExpr":
+        this.infer(expr.expr, scope)
+        return { type: PRIMITIVE, nullness: "never" }
+      case "BinaryExpr": {
+        const l = this.infer(expr.left, scope)
+        const r = this.infer(expr.right, scope)
+        if (expr.op === "||") return { nullness: l.nullness === "never" ? "never" : r.nullness === "never" ? "never" : join(l.nullness, r.nullness) }
+        if (expr.op === "&&") return { nullness: l.nullness === "always" ? "always" : join(l.nullness, r.nullness) }
+        return { type: PRIMITIVE, nullness: "never" }
+      }
+    }
+  }
+
+  // Deleting an object of type T deletes every owner whose mandatory field may
+  // hold a T, and recursively the owners of those.
+  private computeBlastRadius(): Map<string, string[]> {
+    const result = new Map<string, string[]>()
+    for (const name of this.structs.keys()) {
+      const reached = new Set<string>()
+      const queue = [name]
+      while (queue.length) {
+        const cur = queue.shift()!
+        for (const owned of this.owns.get(cur) ?? []) {
+          if (!reached.has(owned)) { reached.add(owned); queue.push(owned) }
+        }
+        for (const [owner, fields] of this.edges) {
+          if (reached.has(owner)) continue
+          const refersToCur = [...fields.values()].some(t => t.has(cur) || t.has(ANY_TYPE))
+          if (refersToCur) { reached.add(owner); queue.push(owner) }
+        }
+      }
+      result.set(name, [...reached].sort())
+    }
+    return result
+  }
+}
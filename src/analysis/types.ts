@@ -0,0 +1,560 @@
+import { Expression, FnDeclStmt, FnExpr, Program, Span, Statement, StructStmt, TypeExpr } from "../core/ast.js"
+import { Diagnostic } from "../core/errors.js"
+
+export type Type =
+  | { kind: "any" }
+  | { kind: "number" }
+  | { kind: "string" }
+  | { kind: "bool" }
+  | { kind: "null" }
+  | { kind: "struct"; name: string }
+  | { kind: "array"; element: Type }
+  // string keys to values
+  | { kind: "map"; value: Type }
+  // params is undefined for variadic builtins
+  | { kind: "fn"; params?: Type[]; result: Type }
+  | { kind: "nullable"; inner: Type }
+
+const ANY: Type = { kind: "any" }
+const NUMBER: Type = { kind: "number" }
+const STRING: Type = { kind: "string" }
+const BOOL: Type = { kind: "bool" }
+const NULL: Type = { kind: "null" }
+
+const PRIMITIVES: Record<string, Type | undefined> = { any: ANY, number: NUMBER, string: STRING, bool: BOOL, null: NULL }
+
+export interface TypeReport {
+  diagnostics: Diagnostic[]
+  // inferred type of every expression in the program
+  types: Map<Expression, Type>
+}
+
+export function typeToString(t: Type): string {
+  switch (t.kind) {
+    case "struct": return t.name
+    case "array": return `[${typeToString(t.element)}]`
+    case "map": return `#{${typeToString(t.value)}}`
+    case "nullable": return `${typeToString(t.inner)}?`
+    case "fn": return `fn(${t.params ? t.params.map(typeToString).join(", ") : "..."}) -> ${typeToString(t.result)}`
+    default: return t.kind
+  }
+}
+
+export function nullable(t: Type): Type {
+  if (t.kind === "any" || t.kind === "null" || t.kind === "nullable") return t
+  return { kind: "nullable", inner: t }
+}
+
+export function stripNull(t: Type): Type {
+  return t.kind === "nullable" ? t.inner : t
+}
+
+function sameType(a: Type, b: Type): boolean {
+  if (a.kind !== b.kind) return false
+  if (a.kind === "struct") return a.name === (b as typeof a).name
+  if (a.kind === "array") return sameType(a.element, (b as typeof a).element)
+  if (a.kind === "map") return sameType(a.value, (b as typeof a).value)
+  if (a.kind === "nullable") return sameType(a.inner, (b as typeof a).inner)
+  if (a.kind === "fn") {
+    const other = b as typeof a
+    if (!sameType(a.result, other.result)) return false
+    if (!a.params || !other.params) return !a.params && !other.params
+    return a.params.length === other.params.length && a.params.every((p, i) => sameType(p, other.params![i]))
+  }
+  return true
+}
+
+function joinTypes(a: Type, b: Type): Type {
+  if (sameType(a, b)) return a
+  if (a.kind === "any" || b.kind === "any") return ANY
+  if (a.kind === "null") return nullable(b)
+  if (b.kind === "null") return nullable(a)
+  if (sameType(stripNull(a), stripNull(b))) return nullable(stripNull(a))
+  return ANY
+}
+
+// "nullable" means the types only disagree on whether null is allowed.
+type Compat = "ok" | "nullable" | "mismatch"
+
+function assignable(src: Type, dst: Type): Compat {
+  if (src.kind === "any" || dst.kind === "any") return "ok"
+  if (dst.kind === "nullable") {
+    if (src.kind === "null") return "ok"
+    return assignable(stripNull(src), dst.inner) === "mismatch" ? "mismatch" : "ok"
+  }
+  if (src.kind === "null") return "nullable"
+  if (src.kind === "nullable") return assignable(src.inner, dst) === "mismatch" ? "mismatch" : "nullable"
+  if (src.kind !== dst.kind) return "mismatch"
+  if (src.kind === "struct") return src.name === (dst as typeof src).name ? "ok" : "mismatch"
+  if (src.kind === "array") return assignable(src.element, (dst as typeof src).element) === "mismatch" ? "mismatch" : "ok"
+  if (src.kind === "map") return assignable(src.value, (dst as typeof src).value) === "mismatch" ? "mismatch" : "ok"
+  // a variable holding functions of different shapes is widened to any
+  if (src.kind === "fn") return sameType(src, dst) ? "ok" : "mismatch"
+  return "ok"
+}
+
+// whether control never falls off the end of `stmt` (it returns or throws)
+export function alwaysReturns(stmt: Statement): boolean {
+  if (stmt.kind === "ReturnStmt" || stmt.kind === "ThrowStmt") return true
+  if (stmt.kind === "BlockStmt") return stmt.statements.some(alwaysReturns)
+  if (stmt.kind === "IfStmt") return !!stmt.elseBranch && alwaysReturns(stmt.thenBranch) && alwaysReturns(stmt.elseBranch)
+  if (stmt.kind === "TryStmt") return (!!stmt.finalizer && alwaysReturns(stmt.finalizer)) || (alwaysReturns(stmt.body) && (!stmt.handler || alwaysReturns(stmt.handler.body)))
+  return false
+}
+
+interface Binding {
+  type: Type
+  // annotated bindings keep their type; inferred ones widen on reassignment
+  annotated: boolean
+}
+
+class Scope {
+  private vars = new Map<string, Binding>()
+  constructor(public readonly parent?: Scope) {}
+  lookup(name: string): Binding | undefined { return this.vars.get(name) ?? this.parent?.lookup(name) }
+  declare(name: string, binding: Binding) { this.vars.set(name, binding) }
+  root(): Scope { return this.parent ? this.parent.root() : this }
+}
+
+// Local type inference over a Program. Unannotated parameters are `any`,
+// unannotated lets take the type of their initializer and unannotated
+// functions return the join of their return statements. Optional struct
+// fields read as `T?`; mandatory ones as `T`. `predeclared` names are bound
+// outside the program (e.g. restored from a snapshot) and typed `any`.
+export function checkTypes(program: Program, predeclared: Iterable<string> = []): TypeReport {
+  return new TypeChecker(program, predeclared).check()
+}
+
+class TypeChecker {
+  private structs = new Map<string, StructStmt>()
+  private fieldTypes = new Map<string, Map<string, Type>>()
+  private types = new Map<Expression, Type>()
+  private diagnostics: Diagnostic[] = []
+  private returns: { declared?: Type; inferred?: Type }[] = []
+  // struct name -> methods declared as `fn Struct.name(self, ...)`, and their types once walked
+  private methods = new Map<string, Map<string, FnDeclStmt>>()
+  private methodTypes = new Map<FnDeclStmt, Type>()
+  // types of the array builtins taking a callback -> builtin name
+  private higherOrder = new Map<Type, string>()
+  // names bound by imports or restored; other modules are checked on their own
+  private imported: Set<string>
+
+  constructor(private program: Program, predeclared: Iterable<string>) {
+    this.imported = new Set(predeclared)
+  }
+
+  check(): TypeReport {
+    for (const stmt of this.program.statements) this.collect(stmt)
+    for (const [name, stmt] of this.structs) {
+      const fields = new Map<string, Type>()
+      for (const f of stmt.fields) {
+        const t = f.type ? this.resolve(f.type) : ANY
+        fields.set(f.name, f.optional ? nullable(t) : t)
+      }
+      for (const c of stmt.computed ?? []) fields.set(c.name, ANY)
+      this.fieldTypes.set(name, fields)
+    }
+    const globals = new Scope()
+    globals.declare("println", { type: { kind: "fn", result: NULL }, annotated: true })
+    globals.declare("assert", { type: { kind: "fn", result: NULL }, annotated: true })
+    globals.declare("len", { type: { kind: "fn", params: [ANY], result: NUMBER }, annotated: true })
+    globals.declare("gc", { type: { kind: "fn", params: [], result: ANY }, annotated: true })
+    globals.declare("wouldCascade", { type: { kind: "fn", result: { kind: "array", element: ANY } }, annotated: true })
+    globals.declare("isAlive", { type: { kind: "fn", params: [ANY], result: BOOL }, annotated: true })
+    globals.declare("isDeleted", { type: { kind: "fn", params: [ANY], result: BOOL }, annotated: true })
+    globals.declare("typeOf", { type: { kind: "fn", params: [ANY], result: STRING }, annotated: true })
+    globals.declare("idOf", { type: { kind: "fn", params: [ANY], result: NUMBER }, annotated: true })
+    globals.declare("dumpHeap", { type: { kind: "fn", result: STRING }, annotated: true })
+    globals.declare("weak", { type: { kind: "fn", params: [ANY], result: ANY }, annotated: true })
+    globals.declare("all", { type: { kind: "fn", params: [ANY], result: { kind: "array", element: ANY } }, annotated: true })
+    globals.declare("findBy", { type: { kind: "fn", params: [ANY, STRING, ANY], result: ANY }, annotated: true })
+    globals.declare("substr", { type: { kind: "fn", result: STRING }, annotated: true })
+    globals.declare("split", { type: { kind: "fn", params: [STRING, STRING], result: { kind: "array", element: STRING } }, annotated: true })
+    globals.declare("join", { type: { kind: "fn", params: [{ kind: "array", element: ANY }, STRING], result: STRING }, annotated: true })
+    globals.declare("indexOf", { type: { kind: "fn", params: [STRING, STRING], result: NUMBER }, annotated: true })
+    for (const name of ["upper", "lower", "trim"]) globals.declare(name, { type: { kind: "fn", params: [STRING], result: STRING }, annotated: true })
+    globals.declare("replace", { type: { kind: "fn", params: [STRING, STRING, STRING], result: STRING }, annotated: true })
+    globals.declare("toString", { type: { kind: "fn", params: [ANY], result: STRING }, annotated: true })
+    globals.declare("parseNumber", { type: { kind: "fn", params: [STRING], result: nullable(NUMBER) }, annotated: true })
+    globals.declare("keys", { type: { kind: "fn", params: [ANY], result: { kind: "array", element: STRING } }, annotated: true })
+    for (const name of ["values", "entries"]) globals.declare(name, { type: { kind: "fn", params: [ANY], result: { kind: "array", element: ANY } }, annotated: true })
+    for (const name of ["has", "remove"]) globals.declare(name, { type: { kind: "fn", params: [ANY, STRING], result: BOOL }, annotated: true })
+    for (const name of ["map", "filter", "reduce", "find", "sortBy", "forEach"]) {
+      const result: Type = name === "forEach" ? NULL : name === "reduce" || name === "find" ? ANY : { kind: "array", element: ANY }
+      const type: Type = { kind: "fn", params: name === "reduce" ? undefined : [ANY, ANY], result }
+      this.higherOrder.set(type, name)
+      globals.declare(name, { type, annotated: true })
+    }
+    globals.declare("explainLastCascade", { type: { kind: "fn", params: [], result: ANY }, annotated: true })
+    for (const stmt of this.program.statements) this.walk(stmt, globals)
+    return { diagnostics: this.diagnostics, types: this.types }
+  }
+
+  private collect(stmt: Statement) {
+    if (stmt.kind === "StructStmt") { this.structs.set(stmt.name, stmt); if (stmt.onDelete) this.collect(stmt.onDelete.body) }
+    else if (stmt.kind === "ImportStmt") stmt.names.forEach(n => this.imported.add(n.name))
+    else if (stmt.kind === "FnDeclStmt") {
+      if (stmt.receiver) this.methods.set(stmt.receiver, (this.methods.get(stmt.receiver) ?? new Map()).set(stmt.name, stmt))
+      this.collect(stmt.body)
+    } else if (stmt.kind === "BlockStmt") stmt.statements.forEach(s => this.collect(s))
+    else if (stmt.kind === "IfStmt") { this.collect(stmt.thenBranch); if (stmt.elseBranch) this.collect(stmt.elseBranch) }
+    else if (stmt.kind === "WhileStmt" || stmt.kind === "ForStmt" || stmt.kind === "ForInStmt") this.collect(stmt.body)
+    else if (stmt.kind === "AtomicStmt") this.collect(stmt.body)
+    else if (stmt.kind === "TryStmt") [stmt.body, stmt.handler?.body, stmt.finalizer].forEach(b => b && this.collect(b))
+  }
+
+  private report(code: string, message: string, span: Span, severity: Diagnostic["severity"] = "error") {
+    this.diagnostics.push({ severity, code, message, span, file: this.program.file })
+  }
+
+  private resolve(t: TypeExpr): Type {
+    if (t.kind === "NullableType") return nullable(this.resolve(t.inner))
+    if (t.kind === "ArrayType") return { kind: "array", element: this.resolve(t.element) }
+    if (t.kind === "MapType") return { kind: "map", value: this.resolve(t.value) }
+    const primitive = PRIMITIVES[t.name]
+    if (primitive) return primitive
+    if (this.structs.has(t.name)) return { kind: "struct", name: t.name }
+    if (this.imported.has(t.name)) return ANY
+    this.report("unknown-type", `Unknown type '${t.name}'`, t.span)
+    return ANY
+  }
+
+  private expect(src: Type, dst: Type, span: Span, what: string) {
+    const compat = assignable(src, dst)
+    if (compat === "mismatch") this.report("type-mismatch", `Cannot use ${typeToString(src)} as ${what} of type ${typeToString(dst)}`, span)
+    else if (compat === "nullable") this.report("nullable", `${what[0].toUpperCase()}${what.slice(1)} of type ${typeToString(dst)} may receive null`, span, "warning")
+  }
+
+  private walk(stmt: Statement, scope: Scope) {
+    switch (stmt.kind) {
+      case "LetStmt": {
+        const valueType = stmt.value ? this.infer(stmt.value, scope) : NULL
+        if (stmt.type) {
+          const declared = this.resolve(stmt.type)
+          this.expect(valueType, declared, stmt.value?.span ?? stmt.span, `variable '${stmt.name}'`)
+          scope.declare(stmt.name, { type: declared, annotated: true })
+        } else {
+          scope.declare(stmt.name, { type: valueType.kind === "null" ? ANY : valueType, annotated: false })
+        }
+        return
+      }
+      case "AssignStmt": {
+        const valueType = stmt.value ? this.infer(stmt.value, scope) : NULL
+        const valueSpan = stmt.value?.span ?? stmt.span
+        const target = stmt.target
+        if (target.kind === "IdentTarget") {
+          const binding = scope.lookup(target.name)
+          if (!binding) scope.root().declare(target.name, { type: ANY, annotated: false })
+          else if (binding.annotated) this.expect(valueType, binding.type, valueSpan, `variable '${target.name}'`)
+          else if (assignable(valueType, binding.type) !== "ok") binding.type = joinTypes(binding.type, valueType)
+        } else if (target.kind === "AccessExpr") {
+          const fieldType = this.accessType(target, scope)
+          const base = stripNull(this.types.get(target.base) ?? ANY)
+          if (base.kind === "struct" && this.isComputed(base.name, target.prop)) this.report("invalid-target", `Cannot assign computed field '${target.prop}'`, target.span)
+          // null in a mandatory field is a deletion, reported by the cascade analysis
+          this.expect(valueType, nullable(fieldType), valueSpan, `field '${target.prop}'`)
+        } else {
+          const element = this.indexType(target, scope)
+          const isMap = stripNull(this.types.get(target.base) ?? ANY).kind === "map"
+          this.expect(valueType, element, valueSpan, isMap ? "map entry" : "array element")
+        }
+        return
+      }
+      case "PrintStmt": this.infer(stmt.expr, scope); return
+      case "ExprStmt": this.infer(stmt.expr, scope); return
+      case "BlockStmt": {
+        const inner = new Scope(scope)
+        for (const s of stmt.statements) this.walk(s, inner)
+        return
+      }
+      case "IfStmt":
+        this.infer(stmt.condition, scope)
+        this.walk(stmt.thenBranch, new Scope(scope))
+        if (stmt.elseBranch) this.walk(stmt.elseBranch, new Scope(scope))
+        return
+      case "WhileStmt":
+        this.infer(stmt.condition, scope)
+        this.walk(stmt.body, new Scope(scope))
+        return
+      case "ForStmt": {
+        const loop = new Scope(scope)
+        if (stmt.init) this.walk(stmt.init, loop)
+        if (stmt.condition) this.infer(stmt.condition, loop)
+        this.walk(stmt.body, new Scope(loop))
+        if (stmt.update) this.walk(stmt.update, loop)
+        return
+      }
+      case "ForInStmt": {
+        const t = stripNull(this.infer(stmt.iterable, scope))
+        if (t.kind !== "any" && t.kind !== "struct" && t.kind !== "array" && t.kind !== "map") this.report("not-an-object", `Cannot iterate over ${typeToString(t)}`, stmt.iterable.span)
+        // arrays give (index,) element, objects give field name(, value) and
+        // maps key(, value)
+        const [key, value]: Type[] = t.kind === "array" ? [NUMBER, t.element] : t.kind === "struct" ? [STRING, ANY] : t.kind === "map" ? [STRING, t.value] : [ANY, ANY]
+        const inner = new Scope(scope)
+        if (stmt.names.length === 1) inner.declare(stmt.names[0], { type: t.kind === "array" ? value : key, annotated: false })
+        else {
+          inner.declare(stmt.names[0], { type: key, annotated: false })
+          inner.declare(stmt.names[1], { type: value, annotated: false })
+        }
+        this.walk(stmt.body, inner)
+        return
+      }
+      case "BreakStmt":
+      case "ContinueStmt": return
+      case "ThrowStmt": this.infer(stmt.value, scope); return
+      case "TryStmt": {
+        this.walk(stmt.body, scope)
+        if (stmt.handler) {
+          // a runtime error object or any thrown value
+          const inner = new Scope(scope)
+          inner.declare(stmt.handler.name, { type: ANY, annotated: false })
+          this.walk(stmt.handler.body, inner)
+        }
+        if (stmt.finalizer) this.walk(stmt.finalizer, scope)
+        return
+      }
+      case "FnDeclStmt": this.walkFn(stmt, scope); return
+      case "ReturnStmt": {
+        const t = stmt.value ? this.infer(stmt.value, scope) : NULL
+        const frame = this.returns[this.returns.length - 1]
+        if (!frame) return
+        if (frame.declared) this.expect(t, frame.declared, stmt.value?.span ?? stmt.span, "return value")
+        frame.inferred = frame.inferred ? joinTypes(frame.inferred, t) : t
+        return
+      }
+      case "AtomicStmt": this.walk(stmt.body, scope); return
+      case "DeleteStmt": {
+        const t = stripNull(this.infer(stmt.target, scope))
+        if (t.kind !== "any" && t.kind !== "struct" && t.kind !== "array" && t.kind !== "map") this.report("not-an-object", `Cannot delete ${typeToString(t)}`, stmt.target.span)
+        return
+      }
+      case "AbortStmt": return
+      case "ImportStmt":
+        for (const { name } of stmt.names) scope.declare(name, { type: ANY, annotated: false })
+        return
+      case "StructStmt": {
+        // computed fields and invariants see the object as `self`
+        const rules = new Scope(scope)
+        rules.declare("self", { type: { kind: "struct", name: stmt.name }, annotated: true })
+        for (const c of stmt.computed ?? []) this.infer(c.expr, rules)
+        for (const i of stmt.invariants ?? []) this.infer(i.expr, rules)
+        if (!stmt.onDelete) return
+        // the handler receives the deleted object and the reason of its deletion
+        const inner = new Scope(scope)
+        stmt.onDelete.params.forEach((p, i) => {
+          const type = p.type ? this.resolve(p.type) : i === 0 ? { kind: "struct" as const, name: stmt.name } : ANY
+          inner.declare(p.name, { type, annotated: !!p.type })
+        })
+        this.returns.push({})
+        try { this.walk(stmt.onDelete.body, inner) } finally { this.returns.pop() }
+        return
+      }
+    }
+  }
+
+  private isComputed(struct: string, field: string): boolean {
+    return !!this.structs.get(struct)?.computed?.some(c => c.name === field)
+  }
+
+  private walkFn(stmt: FnDeclStmt, scope: Scope) {
+    if (!stmt.receiver) {
+      // declared before the body is checked so recursive calls resolve
+      this.walkFunction(stmt, scope, t => scope.declare(stmt.name, { type: t, annotated: true }))
+      return
+    }
+    const struct = stmt.receiver
+    if (!this.structs.has(struct) && !this.imported.has(struct)) this.report("unknown-type", `Unknown struct type '${struct}'`, stmt.span)
+    if (this.fieldTypes.get(struct)?.has(stmt.name)) this.report("invalid-target", `Method '${stmt.name}' clashes with a field of ${struct}`, stmt.span)
+    // the first parameter is the object the method is called on
+    const self: Type = this.structs.has(struct) ? { kind: "struct", name: struct } : ANY
+    this.walkFunction(stmt, scope, t => this.methodTypes.set(stmt, t), self)
+  }
+
+  private walkFunction(fn: FnDeclStmt | FnExpr, scope: Scope, declare?: (t: Type) => void, self?: Type): Type {
+    const params = fn.params.map((p, i) => p.type ? this.resolve(p.type) : i === 0 && self ? self : ANY)
+    const declared = fn.returnType ? this.resolve(fn.returnType) : undefined
+    const fnType = { kind: "fn" as const, params, result: declared ?? ANY }
+    declare?.(fnType)
+    const inner = new Scope(scope)
+    fn.params.forEach((p, i) => inner.declare(p.name, { type: params[i], annotated: !!p.type }))
+    this.returns.push({ declared })
+    try {
+      this.walk(fn.body, inner)
+    } finally {
+      const frame = this.returns.pop()!
+      const fallsThrough = !alwaysReturns(fn.body)
+      if (declared && fallsThrough) this.expect(NULL, declared, fn.span, "return value")
+      if (!declared) {
+        const inferred = frame.inferred ?? NULL
+        fnType.result = fallsThrough ? joinTypes(inferred, NULL) : inferred
+      }
+    }
+    return fnType
+  }
+
+  // The type of `obj.name` called as a method, without its `self` parameter;
+  // undefined if the struct of obj has no such method.
+  private methodType(expr: Extract<Expression, { kind: "AccessExpr" }>, scope: Scope): Type | undefined {
+    const base = stripNull(this.infer(expr.base, scope))
+    const stmt = base.kind === "struct" ? this.methods.get(base.name)?.get(expr.prop) : undefined
+    if (!stmt) return undefined
+    // methods declared further down are typed from their annotations
+    const t = this.methodTypes.get(stmt) ?? { kind: "fn", params: stmt.params.map(p => p.type ? this.resolve(p.type) : ANY), result: stmt.returnType ? this.resolve(stmt.returnType) : ANY }
+    return t.kind === "fn" ? { ...t, params: t.params?.slice(1) } : t
+  }
+
+  private infer(expr: Expression, scope: Scope): Type {
+    const t = this.inferExpr(expr, scope)
+    this.types.set(expr, t)
+    return t
+  }
+
+  private inferExpr(expr: Expression, scope: Scope): Type {
+    switch (expr.kind) {
+      case "NumberLit": return NUMBER
+      case "StringLit": return STRING
+      case "BoolLit": return BOOL
+      case "NullLit": return NULL
+      case "IdentExpr": return scope.lookup(expr.name)?.type ?? ANY
+      case "AccessExpr": return this.accessType(expr, scope)
+      case "IndexExpr": return this.indexType(expr, scope)
+      case "ArrayLit": {
+        const elements = expr.elements.map(e => e ? this.infer(e, scope) : NULL)
+        if (!elements.length) return { kind: "array", element: ANY }
+        return { kind: "array", element: elements.reduce(joinTypes) }
+      }
+      case "MapLit": {
+        const values = expr.entries.map(e => this.infer(e.value, scope))
+        return { kind: "map", value: values.length ? values.reduce(joinTypes) : ANY }
+      }
+      case "ObjectLit": {
+        if (!expr.typeName) {
+          for (const p of expr.props) if (p.value) this.infer(p.value, scope)
+          return ANY
+        }
+        const fields = this.fieldTypes.get(expr.typeName)
+        if (!fields && !this.imported.has(expr.typeName)) this.report("unknown-type", `Unknown struct type '${expr.typeName}'`, expr.span)
+        for (const p of expr.props) {
+          const valueType = p.value ? this.infer(p.value, scope) : NULL
+          if (!fields) continue
+          const fieldType = fields.get(p.key)
+          if (this.isComputed(expr.typeName, p.key)) this.report("invalid-target", `Cannot assign computed field '${p.key}'`, p.span)
+          else if (!fieldType) this.report("unknown-field", `Struct ${expr.typeName} has no field '${p.key}'`, p.span)
+          else this.expect(valueType, nullable(fieldType), p.value?.span ?? p.span, `field '${p.key}'`)
+        }
+        return fields ? { kind: "struct", name: expr.typeName } : ANY
+      }
+      case "FnExpr": return this.walkFunction(expr, scope)
+      case "TemplateExpr":
+        expr.exprs.forEach(e => this.infer(e, scope))
+        return STRING
+      case "CallExpr": {
+        const method = expr.callee.kind === "AccessExpr" ? this.methodType(expr.callee, scope) : undefined
+        if (method) this.types.set(expr.callee, method)
+        const callee = method ?? stripNull(this.infer(expr.callee, scope))
+        const args = expr.args.map(a => this.infer(a, scope))
+        if (callee.kind === "any") return ANY
+        if (callee.kind !== "fn") {
+          this.report("not-callable", `Cannot call a value of type ${typeToString(callee)}`, expr.span)
+          return ANY
+        }
+        if (callee.params) {
+          if (callee.params.length !== args.length) {
+            const name = expr.callee.kind === "IdentExpr" ? `Function ${expr.callee.name}` : "Function"
+            this.report("arity", `${name} expects ${callee.params.length} argument${callee.params.length === 1 ? "" : "s"} but got ${args.length}`, expr.span)
+          }
+          args.forEach((a, i) => { if (callee.params![i]) this.expect(a, callee.params![i], expr.args[i].span, `argument ${i + 1}`) })
+        }
+        const builtin = this.higherOrder.get(callee)
+        return builtin ? this.higherOrderResult(builtin, args) : callee.result
+      }
+      case "UnaryExpr": {
+        const operand = this.infer(expr.expr, scope)
+        if (expr.op === "!") return BOOL
+        this.expectNumeric(operand, expr.op, expr.span)
+        return NUMBER
+      }
+      case "BinaryExpr": {
+        const l = this.infer(expr.left, scope)
+        const r = this.infer(expr.right, scope)
+        switch (expr.op) {
+          case "+": case "<": case ">": case "<=": case ">=": return this.numbersOrStrings(expr.op, l, r, expr.span)
+          case "-": case "*": case "/":
+            this.expectNumeric(l, expr.op, expr.span)
+            this.expectNumeric(r, expr.op, expr.span)
+            return NUMBER
+          case "&&": case "||": return joinTypes(l, r)
+          default: return BOOL
+        }
+      }
+    }
+  }
+
+  // map gives an array of what the callback returns; filter and sortBy keep
+  // the array type, find gives a nullable element
+  private higherOrderResult(builtin: string, [xs, f]: Type[]): Type {
+    const array = xs && stripNull(xs)
+    const element = array?.kind === "array" ? array.element : ANY
+    const callback = f && stripNull(f)
+    if (builtin === "map") return { kind: "array", element: callback?.kind === "fn" ? callback.result : ANY }
+    if (builtin === "filter" || builtin === "sortBy") return { kind: "array", element }
+    if (builtin === "find") return nullable(element)
+    return builtin === "forEach" ? NULL : ANY
+  }
+
+  // `+` and the comparisons take two numbers or two strings; an operand of
+  // unknown type takes the kind of the other one
+  private numbersOrStrings(op: string, l: Type, r: Type, span: Span): Type {
+    const result = (t: Type) => op === "+" ? t : BOOL
+    const [lb, rb] = [stripNull(l), stripNull(r)]
+    if (lb.kind === "string" || rb.kind === "string") {
+      const other = lb.kind === "string" ? rb : lb
+      if (other.kind === "string" || other.kind === "any") return result(STRING)
+      this.report("invalid-operand", `Operator '${op}' cannot be applied to ${typeToString(l)} and ${typeToString(r)}`, span)
+      return result(ANY)
+    }
+    this.expectNumeric(l, op, span)
+    this.expectNumeric(r, op, span)
+    return result(lb.kind === "any" && rb.kind === "any" ? ANY : NUMBER)
+  }
+
+  private expectNumeric(t: Type, op: string, span: Span) {
+    const base = stripNull(t)
+    if (base.kind === "any" || base.kind === "number") return
+    this.report("invalid-operand", `Operator '${op}' cannot be applied to ${typeToString(t)}`, span)
+  }
+
+  private accessType(expr: Extract<Expression, { kind: "AccessExpr" }>, scope: Scope): Type {
+    const base = stripNull(this.infer(expr.base, scope))
+    if (base.kind === "any") return ANY
+    if (base.kind === "array" && expr.prop === "length") return NUMBER
+    if (base.kind !== "struct") {
+      this.report("not-an-object", `Property access on ${typeToString(base)}`, expr.span)
+      return ANY
+    }
+    const fieldType = this.fieldTypes.get(base.name)?.get(expr.prop)
+    if (!fieldType) {
+      this.report("unknown-field", `Struct ${base.name} has no field '${expr.prop}'`, expr.span)
+      return ANY
+    }
+    return fieldType
+  }
+
+  private indexType(expr: Extract<Expression, { kind: "IndexExpr" }>, scope: Scope): Type {
+    const base = stripNull(this.infer(expr.base, scope))
+    const index = this.infer(expr.index, scope)
+    const indexBase = stripNull(index)
+    if (base.kind === "map") {
+      if (indexBase.kind !== "any" && indexBase.kind !== "string") this.report("invalid-operand", `Map key must be a string, not ${typeToString(index)}`, expr.index.span)
+      // missing keys read as null
+      return nullable(base.value)
+    }
+    if (indexBase.kind !== "any" && indexBase.kind !== "number") this.report("invalid-operand", `Array index must be a number, not ${typeToString(index)}`, expr.index.span)
+    if (base.kind === "any") return ANY
+    if (base.kind !== "array") {
+      this.report("not-an-array", `Cannot index a value of type ${typeToString(base)}`, expr.span)
+      return ANY
+    }
+    return base.element
+  }
+}
@@ -1,21 +1,87 @@
 #!/usr/bin/env node
 import { Command } from "commander"
-import { readFileSync } from "node:fs"
+import { readFileSync, writeFileSync } from "node:fs"
+import { Program } from "./core/ast.js"
 import { Parser } from "./core/parser.js"
+import { CascError, formatDiagnostic, formatError } from "./core/errors.js"
 import { Interpreter } from "./runtime/interpreter.js"
+import { CascadeTrace, formatCascadeTrace } from "./runtime/heap.js"
+import { checkCascades } from "./analysis/cascade.js"
+import { checkTypes } from "./analysis/types.js"
+import { startRepl } from "./repl.js"
+
+// Run `fn` and print any CascError with its source context instead of a stack trace.
+function reportErrors(file: string, src: string, fn: () => void) {
+  try {
+    fn()
+  } catch (e) {
+    if (!(e instanceof CascError)) throw e
+    const errorSrc = e.file && e.file !== file ? tryRead(e.file) : src
+    console.error(formatError(e, errorSrc))
+    process.exitCode = 1
+  }
+}
+
+function tryRead(file: string): string | undefined {
+  try { return readFileSync(file, "utf-8") } catch { return undefined }
+}
+
+// Print the type errors of a module and refuse to run it if there are any.
+function typecheck(program: Program, src: string, predeclared: string[] = []) {
+  const errors = checkTypes(program, predeclared).diagnostics.filter(d => d.severity === "error")
+  for (const d of errors) console.error(formatDiagnostic(d, src))
+  if (errors.length) throw new CascError("type-error", `${errors.length} type error${errors.length === 1 ? "" : "s"}, not running`, undefined, program.file)
+}
 
 const program = new Command()
 program
   .name("casc")
   .description("CascadeLang CLI")
+
+program
+  .command("run", { isDefault: true })
+  .description("Run a CascadeLang program")
+  .argument("<file>", "Source file (.casc)")
+  .option("--gc-threshold <n>", "allocations between automatic garbage collections (0 disables)", v => Number(v))
+  .option("--trace-cascade", "print the tree of objects removed by every cascade to stderr")
+  .option("--dump-heap <format>", "print the heap as json, dot or mermaid after the program ran")
+  .option("--verify-heap", "check the heap invariants after every statement (slow, for debugging)")
+  .option("--restore <file>", "start from the heap and variables saved in a snapshot")
+  .option("--save <file>", "save the heap and variables to a snapshot after the program ran")
+  .action((file: string, opts: { gcThreshold?: number; traceCascade?: boolean; dumpHeap?: string; verifyHeap?: boolean; restore?: string; save?: string }) => {
+    const src = readFileSync(file, "utf-8")
+    reportErrors(file, src, () => {
+      const parser = new Parser(src, file)
+      const ast = parser.parseProgram()
+      const onCascade = opts.traceCascade ? (trace: CascadeTrace) => console.error(["cascade:", ...formatCascadeTrace(trace, "  ")].join("\n")) : undefined
+      const interp = new Interpreter({ gcThreshold: opts.gcThreshold, onModuleLoad: (program, moduleSrc) => typecheck(program, moduleSrc), onCascade, verifyHeap: opts.verifyHeap })
+      const restored = opts.restore ? interp.restoreSnapshot(readFileSync(opts.restore, "utf-8")) : []
+      typecheck(ast, src, restored)
+      interp.run(ast)
+      if (opts.dumpHeap) console.log(interp.dumpHeap(opts.dumpHeap))
+      if (opts.save) writeFileSync(opts.save, interp.saveSnapshot())
+    })
+  })
+
+program
+  .command("check")
+  .description("Type-check a program and report assignments that may cascade-delete objects")
   .argument("<file>", "Source file (.casc)")
   .action((file: string) => {
     const src = readFileSync(file, "utf-8")
-    const parser = new Parser(src)
-    const ast = parser.parseProgram()
-    const interp = new Interpreter()
-    interp.run(ast)
+    reportErrors(file, src, () => {
+      const ast = new Parser(src, file).parseProgram()
+      const typed = checkTypes(ast)
+      const diagnostics = [...typed.diagnostics, ...checkCascades(ast, typed.types).diagnostics]
+      diagnostics.sort((a, b) => (a.span?.line ?? 0) - (b.span?.line ?? 0) || (a.span?.column ?? 0) - (b.span?.column ?? 0))
+      for (const d of diagnostics) console.log(formatDiagnostic(d, src))
+      if (diagnostics.some(d => d.severity === "error")) process.exitCode = 1
+    })
   })
 
-program.parse()
+program
+  .command("repl")
+  .description("Start an interactive session with a persistent heap")
+  .action(() => startRepl())
 
+program.parse()
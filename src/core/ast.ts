@@ -1,5 +1,11 @@
+export interface Span {
+  line: number
+  column: number
+}
+
 export interface Program {
   statements: Statement[]
+  file?: string
 }
 
 export type Statement =
@@ -10,45 +16,112 @@ export type Statement =
   | BlockStmt
   | IfStmt
   | WhileStmt
+  | ForStmt
+  | ForInStmt
+  | BreakStmt
+  | ContinueStmt
+  | ThrowStmt
+  | TryStmt
   | FnDeclStmt
   | ReturnStmt
   | ExprStmt
+  | ImportStmt
+  | AtomicStmt
+  | AbortStmt
+  | DeleteStmt
 
 export interface LetStmt {
   kind: "LetStmt"
+  span: Span
   name: string
+  exported?: boolean
+  type?: TypeExpr
   value?: Expression
 }
 
 export interface AssignStmt {
   kind: "AssignStmt"
+  span: Span
   target: LValue
   value?: Expression // undefined means assign null (deletion)
 }
 
 export interface StructStmt {
   kind: "StructStmt"
+  span: Span
   name: string
+  exported?: boolean
   fields: StructField[]
+  onDelete?: DeleteHandler
+  computed?: ComputedField[]
+  invariants?: Invariant[]
 }
 
+// `computed total = self.price * self.qty` inside a struct body; evaluated on
+// every read with `self` bound to the object
+export interface ComputedField {
+  span: Span
+  name: string
+  expr: Expression
+}
+
+// `invariant self.qty >= 0 [else delete]` inside a struct body; checked after
+// every write to a field of the object
+export interface Invariant {
+  span: Span
+  expr: Expression
+  // `else delete`: a violation deletes the object instead of failing
+  cascade: boolean
+}
+
+// `on delete(self, reason) { ... }` inside a struct body
+export interface DeleteHandler {
+  span: Span
+  params: Param[]
+  body: BlockStmt
+}
+
+// What happens to a field (or array slot) when the object it references is
+// deleted: delete the owner, set the field to null, refuse the deletion, or
+// (array slots and map entries) remove the slot.
+export type DeletePolicy = "cascade" | "nullify" | "restrict" | "compact"
+
+export const DELETE_POLICIES: readonly DeletePolicy[] = ["cascade", "nullify", "restrict", "compact"]
+
+// `unique x` / `indexed x`: the heap keeps an index of the field's values per
+// struct type; a unique field never holds the same non-null value twice.
+export type FieldIndex = "unique" | "indexed"
+
 export interface StructField {
+  span: Span
   name: string
   optional: boolean // false => mandatory
+  // explicit policy: `mandatory(nullify) x`, `restrict x`, `compact xs`, ...
+  policy?: DeletePolicy
+  // `owned x`: the object stored in the field (or the elements of the array
+  // stored in it) is deleted together with the owner
+  owned?: boolean
+  index?: FieldIndex
+  // `weak x`: an optional field holding weak references (see `weak(x)`)
+  weak?: boolean
+  type?: TypeExpr
 }
 
 export interface PrintStmt {
   kind: "PrintStmt"
+  span: Span
   expr: Expression
 }
 
 export interface BlockStmt {
   kind: "BlockStmt"
+  span: Span
   statements: Statement[]
 }
 
 export interface IfStmt {
   kind: "IfStmt"
+  span: Span
   condition: Expression
   thenBranch: Statement
   elseBranch?: Statement
@@ -56,24 +129,116 @@ export interface IfStmt {
 
 export interface WhileStmt {
   kind: "WhileStmt"
+  span: Span
   condition: Expression
   body: Statement
+  label?: string
+}
+
+// for (init; condition; update) body; every part is optional
+export interface ForStmt {
+  kind: "ForStmt"
+  span: Span
+  init?: LetStmt | AssignStmt | ExprStmt
+  condition?: Expression
+  update?: AssignStmt | ExprStmt
+  body: Statement
+  label?: string
+}
+
+// for (x in xs) / for (i, x in xs) over array elements,
+// for (k in obj) / for (k, v in obj) over object fields
+export interface ForInStmt {
+  kind: "ForInStmt"
+  span: Span
+  names: string[]
+  iterable: Expression
+  body: Statement
+  label?: string
+}
+
+export interface BreakStmt {
+  kind: "BreakStmt"
+  span: Span
+  label?: string
+}
+
+export interface ContinueStmt {
+  kind: "ContinueStmt"
+  span: Span
+  label?: string
+}
+
+// throw expr: the value is caught as-is by `catch (e)`
+export interface ThrowStmt {
+  kind: "ThrowStmt"
+  span: Span
+  value: Expression
+}
+
+// try { } catch (e) { } finally { }; at least one of catch and finally
+export interface TryStmt {
+  kind: "TryStmt"
+  span: Span
+  body: BlockStmt
+  handler?: { span: Span; name: string; body: BlockStmt }
+  finalizer?: BlockStmt
 }
 
 export interface FnDeclStmt {
   kind: "FnDeclStmt"
+  span: Span
   name: string
-  params: string[]
+  // struct name of a method, `fn Node.describe(self)`; methods bind no variable
+  receiver?: string
+  exported?: boolean
+  params: Param[]
+  returnType?: TypeExpr
   body: BlockStmt
 }
 
+export interface Param {
+  span: Span
+  name: string
+  type?: TypeExpr
+}
+
 export interface ReturnStmt {
   kind: "ReturnStmt"
+  span: Span
   value?: Expression
 }
 
+// import { a, b } from "./lib.casc"
+export interface ImportStmt {
+  kind: "ImportStmt"
+  span: Span
+  names: { name: string; span: Span }[]
+  source: string
+}
+
+// atomic { ... }: heap changes made by the block are undone by `abort` or an error
+export interface AtomicStmt {
+  kind: "AtomicStmt"
+  span: Span
+  body: BlockStmt
+}
+
+export interface AbortStmt {
+  kind: "AbortStmt"
+  span: Span
+}
+
+// delete expr: deletes the object, cascading like a mandatory null store
+export interface DeleteStmt {
+  kind: "DeleteStmt"
+  span: Span
+  target: Expression
+}
+
 export interface ExprStmt {
   kind: "ExprStmt"
+  span: Span
   expr: Expression
 }
 
@@ -86,32 +251,57 @@ export type Expression =
   | IdentExpr
   | AccessExpr
   | ArrayLit
+  | MapLit
   | IndexExpr
   | CallExpr
+  | FnExpr
+  | TemplateExpr
   | UnaryExpr
   | BinaryExpr
 
-export interface NumberLit { kind: "NumberLit"; value: number }
-export interface StringLit { kind: "StringLit"; value: string }
-export interface BoolLit { kind: "BoolLit"; value: boolean }
-export interface NullLit { kind: "NullLit" }
-export interface IdentExpr { kind: "IdentExpr"; name: string }
+export interface NumberLit { kind: "NumberLit"; span: Span; value: number }
+export interface StringLit { kind: "StringLit"; span: Span; value: string }
+export interface BoolLit { kind: "BoolLit"; span: Span; value: boolean }
+export interface NullLit { kind: "NullLit"; span: Span }
+export interface IdentExpr { kind: "IdentExpr"; span: Span; name: string }
+
+export interface AccessExpr { kind: "AccessExpr"; span: Span; base: Expression; prop: string }
+
+export interface ObjectLit { kind: "ObjectLit"; span: Span; typeName?: string; props: { key: string; value?: Expression; span: Span }[] }
 
-export interface AccessExpr { kind: "AccessExpr"; base: Expression; prop: string }
+export interface ArrayLit { kind: "ArrayLit"; span: Span; elements: (Expression | undefined)[] }
 
-export interface ObjectLit { kind: "ObjectLit"; typeName?: string; props: { key: string; value?: Expression }[] }
+// `#{ "k": v }`, or `#(policy){ ... }` with the policy of the entries
+export interface MapLit { kind: "MapLit"; span: Span; entries: { key: string; value: Expression; span: Span }[]; policy?: DeletePolicy }
 
-export interface ArrayLit { kind: "ArrayLit"; elements: (Expression | undefined)[] }
+export interface IndexExpr { kind: "IndexExpr"; span: Span; base: Expression; index: Expression }
 
-export interface IndexExpr { kind: "IndexExpr"; base: Expression; index: Expression }
+export interface CallExpr { kind: "CallExpr"; span: Span; callee: Expression; args: Expression[] }
 
-export interface CallExpr { kind: "CallExpr"; callee: Expression; args: Expression[] }
+// `a${x}b${y}c`: strings holds "a", "b", "c" and exprs x, y
+export interface TemplateExpr { kind: "TemplateExpr"; span: Span; strings: string[]; exprs: Expression[] }
 
-export interface UnaryExpr { kind: "UnaryExpr"; op: "!" | "-"; expr: Expression }
+// fn (x) { ... }; `fn (x) => expr` is parsed as a body returning expr
+export interface FnExpr { kind: "FnExpr"; span: Span; params: Param[]; returnType?: TypeExpr; body: BlockStmt }
 
-export interface BinaryExpr { kind: "BinaryExpr"; left: Expression; op: string; right: Expression }
+export interface UnaryExpr { kind: "UnaryExpr"; span: Span; op: "!" | "-"; expr: Expression }
+
+export interface BinaryExpr { kind: "BinaryExpr"; span: Span; left: Expression; op: string; right: Expression }
 
 export type LValue = AccessExpr | IndexExpr | IdentTarget
 
-export interface IdentTarget { kind: "IdentTarget"; name: string }
+export interface IdentTarget { kind: "IdentTarget"; span: Span; name: string }
+
+
+// Type annotations: `number`, `Node`, `[Node]`, `#{Node}`, `Node?`
+export type TypeExpr = NamedType | ArrayType | MapType | NullableType
+
+export interface NamedType { kind: "NamedType"; span: Span; name: string }
+
+// `elements` is the slot policy of `[T]!` (cascade) and `[T]!(policy)`
+export interface ArrayType { kind: "ArrayType"; span: Span; element: TypeExpr; elements?: DeletePolicy }
+
+// `#{T}` maps strings to T; `elements` is the entry policy of `#{T}!(policy)`
+export interface MapType { kind: "MapType"; span: Span; value: TypeExpr; elements?: DeletePolicy }
 
+export interface NullableType { kind: "NullableType"; span: Span; inner: TypeExpr }
@@ -0,0 +1,83 @@
+import { Span } from "./ast.js"
+
+export type ErrorCode =
+  | "syntax"
+  | "undefined-variable"
+  | "not-an-object"
+  | "not-an-array"
+  | "not-a-map"
+  | "not-callable"
+  | "invalid-target"
+  | "unknown-operator"
+  | "invalid-operand"
+  | "assertion"
+  | "import-error"
+  | "import-cycle"
+  | "module-not-found"
+  | "type-error"
+  | "deleted-object"
+  | "invalid-abort"
+  | "restrict"
+  | "already-owned"
+  | "invalid-argument"
+  | "snapshot-error"
+  | "heap-invariant"
+  | "unique"
+  | "invariant"
+  | "thrown"
+  | "stack-overflow"
+
+export class CascError extends Error {
+  // CascadeLang stack trace, innermost frame first: `name (file:line:col)`
+  trace?: string[]
+  // the source ended inside a string or template; more input could complete it
+  incomplete?: boolean
+
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public span?: Span,
+    public file?: string,
+  ) {
+    super(message)
+    this.name = "CascError"
+  }
+
+  // Fill in a location for errors raised without one (e.g. from builtins).
+  locate(span: Span | undefined, file: string | undefined): this {
+    if (!this.span) this.span = span
+    if (!this.file) this.file = file
+    return this
+  }
+}
+
+export type Severity = "error" | "warning" | "info"
+
+// A located finding from a static pass; unlike CascError it does not abort.
+export interface Diagnostic {
+  severity: Severity
+  code: string
+  message: string
+  span?: Span
+  file?: string
+}
+
+// Render an error as `file:line:col: error[code]: message` followed by the
+// offending source line and a caret under the column, and the stack trace of
+// errors raised inside a function.
+export function formatError(err: CascError, src?: string): string {
+  const text = formatDiagnostic({ severity: "error", code: err.code, message: err.message, span: err.span, file: err.file }, src)
+  return err.trace && err.trace.length > 1 ? [text, ...err.trace.map(f => `    at ${f}`)].join("\n") : text
+}
+
+export function formatDiagnostic(d: Diagnostic, src?: string): string {
+  const where = [d.file ?? "<input>", d.span?.line, d.span?.column].filter(p => p !== undefined).join(":")
+  const out = [`${where}: ${d.severity}[${d.code}]: ${d.message}`]
+  const line = d.span && src !== undefined ? src.split("\n")[d.span.line - 1] : undefined
+  if (d.span && line !== undefined) {
+    const gutter = String(d.span.line)
+    out.push(`  ${gutter} | ${line.replace(/\r$/, "")}`)
+    out.push(`  ${" ".repeat(gutter.length)} | ${" ".repeat(Math.max(0, d.span.column - 1))}^`)
+  }
+  return out.join("\n")
+}
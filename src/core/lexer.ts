@@ -1,4 +1,5 @@
 import { Keywords, Token, TokenKind } from "./tokens.js"
+import { CascError } from "./errors.js"
 
 function isAlpha(ch: string) {
   if (ch.length === 0) return false
@@ -62,17 +63,19 @@ export class Lexer {
 
   next(): Token {
     this.skipWhitespaceAndComments()
+    const startLine = this.line
     const startCol = this.col
     const ch = this.peek()
-    if (!ch) return { kind: TokenKind.EOF, lexeme: "", line: this.line, column: startCol }
+    if (!ch) return { kind: TokenKind.EOF, lexeme: "", line: startLine, column: startCol }
 
     // identifiers/keywords
     if (isAlpha(ch)) {
       let text = ""
       while (isAlpha(this.peek()) || isDigit(this.peek())) text += this.advance()
-      const kw = Keywords[text]
-      if (kw) return { kind: kw, lexeme: text, line: this.line, column: startCol }
-      return { kind: TokenKind.IDENT, lexeme: text, line: this.line, column: startCol }
+      // own keys only, so names like toString stay identifiers
+      const kw = Object.prototype.hasOwnProperty.call(Keywords, text) ? Keywords[text] : undefined
+      if (kw) return { kind: kw, lexeme: text, line: startLine, column: startCol }
+      return { kind: TokenKind.IDENT, lexeme: text, line: startLine, column: startCol }
     }
 
     // number
@@ -83,7 +86,7 @@ export class Lexer {
         text += this.advance()
         while (isDigit(this.peek())) text += this.advance()
       }
-      return { kind: TokenKind.NUMBER, lexeme: text, line: this.line, column: startCol }
+      return { kind: TokenKind.NUMBER, lexeme: text, line: startLine, column: startCol }
     }
 
     // string
@@ -94,50 +97,102 @@ export class Lexer {
         if (this.peek() === "\\") {
           this.advance()
           const esc = this.advance()
-          if (esc === "n") text += "\n"
-          else if (esc === "t") text += "\t"
-          else text += esc
+          text += this.escape(esc)
           continue
         }
         text += this.advance()
       }
-      if (this.peek() !== quote) throw new Error(`Unterminated string at ${this.line}:${startCol}`)
+      if (this.peek() !== quote) throw this.unterminated("Unterminated string", startLine, startCol)
       this.advance()
-      return { kind: TokenKind.STRING, lexeme: text, line: this.line, column: startCol }
+      return { kind: TokenKind.STRING, lexeme: text, line: startLine, column: startCol }
     }
 
+    if (ch === "`") return this.template(startLine, startCol)
+
     // two-char operators
-    if (ch === "=" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.EQEQ, lexeme: "==", line: this.line, column: startCol } }
-    if (ch === "!" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.BANGEQ, lexeme: "!=", line: this.line, column: startCol } }
-    if (ch === "<" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.LTEQ, lexeme: "<=", line: this.line, column: startCol } }
-    if (ch === ">" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.GTEQ, lexeme: ">=", line: this.line, column: startCol } }
-    if (ch === "&" && this.src[this.pos + 1] === "&") { this.advance(); this.advance(); return { kind: TokenKind.ANDAND, lexeme: "&&", line: this.line, column: startCol } }
-    if (ch === "|" && this.src[this.pos + 1] === "|") { this.advance(); this.advance(); return { kind: TokenKind.OROR, lexeme: "||", line: this.line, column: startCol } }
+    if (ch === "=" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.EQEQ, lexeme: "==", line: startLine, column: startCol } }
+    if (ch === "=" && this.src[this.pos + 1] === ">") { this.advance(); this.advance(); return { kind: TokenKind.ARROW, lexeme: "=>", line: startLine, column: startCol } }
+    if (ch === "!" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.BANGEQ, lexeme: "!=", line: startLine, column: startCol } }
+    if (ch === "<" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.LTEQ, lexeme: "<=", line: startLine, column: startCol } }
+    if (ch === ">" && this.src[this.pos + 1] === "=") { this.advance(); this.advance(); return { kind: TokenKind.GTEQ, lexeme: ">=", line: startLine, column: startCol } }
+    if (ch === "&" && this.src[this.pos + 1] === "&") { this.advance(); this.advance(); return { kind: TokenKind.ANDAND, lexeme: "&&", line: startLine, column: startCol } }
+    if (ch === "|" && this.src[this.pos + 1] === "|") { this.advance(); this.advance(); return { kind: TokenKind.OROR, lexeme: "||", line: startLine, column: startCol } }
 
     // symbols
     const sym = this.advance()
     switch (sym) {
-      case "{" : return { kind: TokenKind.LBRACE, lexeme: sym, line: this.line, column: startCol }
-      case "}" : return { kind: TokenKind.RBRACE, lexeme: sym, line: this.line, column: startCol }
-      case "(" : return { kind: TokenKind.LPAREN, lexeme: sym, line: this.line, column: startCol }
-      case ")" : return { kind: TokenKind.RPAREN, lexeme: sym, line: this.line, column: startCol }
-      case "[" : return { kind: TokenKind.LBRACKET, lexeme: sym, line: this.line, column: startCol }
-      case "]" : return { kind: TokenKind.RBRACKET, lexeme: sym, line: this.line, column: startCol }
-      case ":" : return { kind: TokenKind.COLON, lexeme: sym, line: this.line, column: startCol }
-      case ";" : return { kind: TokenKind.SEMICOLON, lexeme: sym, line: this.line, column: startCol }
-      case "," : return { kind: TokenKind.COMMA, lexeme: sym, line: this.line, column: startCol }
-      case "." : return { kind: TokenKind.DOT, lexeme: sym, line: this.line, column: startCol }
-      case "=" : return { kind: TokenKind.EQUAL, lexeme: sym, line: this.line, column: startCol }
-      case "+" : return { kind: TokenKind.PLUS, lexeme: sym, line: this.line, column: startCol }
-      case "-" : return { kind: TokenKind.MINUS, lexeme: sym, line: this.line, column: startCol }
-      case "*" : return { kind: TokenKind.STAR, lexeme: sym, line: this.line, column: startCol }
-      case "/" : return { kind: TokenKind.SLASH, lexeme: sym, line: this.line, column: startCol }
-      case "!" : return { kind: TokenKind.BANG, lexeme: sym, line: this.line, column: startCol }
-      case "<" : return { kind: TokenKind.LT, lexeme: sym, line: this.line, column: startCol }
-      case ">" : return { kind: TokenKind.GT, lexeme: sym, line: this.line, column: startCol }
+      case "{" : return { kind: TokenKind.LBRACE, lexeme: sym, line: startLine, column: startCol }
+      case "}" : return { kind: TokenKind.RBRACE, lexeme: sym, line: startLine, column: startCol }
+      case "(" : return { kind: TokenKind.LPAREN, lexeme: sym, line: startLine, column: startCol }
+      case ")" : return { kind: TokenKind.RPAREN, lexeme: sym, line: startLine, column: startCol }
+      case "[" : return { kind: TokenKind.LBRACKET, lexeme: sym, line: startLine, column: startCol }
+      case "]" : return { kind: TokenKind.RBRACKET, lexeme: sym, line: startLine, column: startCol }
+      case ":" : return { kind: TokenKind.COLON, lexeme: sym, line: startLine, column: startCol }
+      case ";" : return { kind: TokenKind.SEMICOLON, lexeme: sym, line: startLine, column: startCol }
+      case "," : return { kind: TokenKind.COMMA, lexeme: sym, line: startLine, column: startCol }
+      case "?" : return { kind: TokenKind.QUESTION, lexeme: sym, line: startLine, column: startCol }
+      case "#" : return { kind: TokenKind.HASH, lexeme: sym, line: startLine, column: startCol }
+      case "." : return { kind: TokenKind.DOT, lexeme: sym, line: startLine, column: startCol }
+      case "=" : return { kind: TokenKind.EQUAL, lexeme: sym, line: startLine, column: startCol }
+      case "+" : return { kind: TokenKind.PLUS, lexeme: sym, line: startLine, column: startCol }
+      case "-" : return { kind: TokenKind.MINUS, lexeme: sym, line: startLine, column: startCol }
+      case "*" : return { kind: TokenKind.STAR, lexeme: sym, line: startLine, column: startCol }
+      case "/" : return { kind: TokenKind.SLASH, lexeme: sym, line: startLine, column: startCol }
+      case "!" : return { kind: TokenKind.BANG, lexeme: sym, line: startLine, column: startCol }
+      case "<" : return { kind: TokenKind.LT, lexeme: sym, line: startLine, column: startCol }
+      case ">" : return { kind: TokenKind.GT, lexeme: sym, line: startLine, column: startCol }
       default:
-        throw new Error(`Unexpected character '${sym}' at ${this.line}:${startCol}`)
+        throw new CascError("syntax", `Unexpected character '${sym}'`, { line: startLine, column: startCol })
     }
   }
-}
 
+  private escape(esc: string): string {
+    if (esc === "n") return "\n"
+    if (esc === "t") return "\t"
+    return esc
+  }
+
+  // a REPL reads another line on these instead of reporting them
+  private unterminated(message: string, line: number, column: number): CascError {
+    const e = new CascError("syntax", message, { line, column })
+    e.incomplete = true
+    return e
+  }
+
+  // `text ${expr} text`: the expressions are lexed here, up to the `}` that
+  // closes them, so they can hold strings, braces and templates of their own.
+  private template(line: number, column: number): Token {
+    const start = this.pos
+    this.advance()
+    const parts: (string | Token[])[] = []
+    let text = ""
+    while (this.peek() !== "`") {
+      if (!this.peek()) throw this.unterminated("Unterminated template string", line, column)
+      if (this.peek() === "\\") {
+        this.advance()
+        text += this.escape(this.advance())
+        continue
+      }
+      if (this.peek() !== "$" || this.src[this.pos + 1] !== "{") {
+        text += this.advance()
+        continue
+      }
+      const open = { line: this.line, column: this.col }
+      this.advance(); this.advance()
+      const tokens: Token[] = []
+      let depth = 0
+      for (let t = this.next(); t.kind !== TokenKind.RBRACE || depth > 0; t = this.next()) {
+        if (t.kind === TokenKind.EOF) throw this.unterminated("Unterminated template string", line, column)
+        if (t.kind === TokenKind.LBRACE) depth++
+        if (t.kind === TokenKind.RBRACE) depth--
+        tokens.push(t)
+      }
+      if (!tokens.length) throw new CascError("syntax", "Empty ${} in template string", open)
+      parts.push(text, tokens)
+      text = ""
+    }
+    this.advance()
+    parts.push(text)
+    return { kind: TokenKind.TEMPLATE, lexeme: this.src.slice(start, this.pos), line, column, parts }
+  }
+}
@@ -1,43 +1,88 @@
 import { Token, TokenKind } from "./tokens.js"
 import { Lexer } from "./lexer.js"
+import { CascError } from "./errors.js"
 import {
   AccessExpr,
+  ArrayType,
+  DELETE_POLICIES,
+  DeletePolicy,
+  FieldIndex,
+  ComputedField,
+  Invariant,
   AssignStmt,
   BoolLit,
   Expression,
   IdentExpr,
   LetStmt,
+  MapLit,
   NullLit,
   NumberLit,
   ObjectLit,
   PrintStmt,
   Program,
+  Span,
   StringLit,
   StructField,
   StructStmt,
   ExprStmt,
+  ForStmt,
+  ForInStmt,
+  BreakStmt,
+  ContinueStmt,
+  TryStmt,
+  BlockStmt,
+  FnExpr,
+  TemplateExpr,
+  Statement,
+  ImportStmt,
+  Param,
+  TypeExpr,
 } from "./ast.js"
 
 export class Parser {
-  private lexer: Lexer
-  private current: Token
-
-  constructor(src: string) {
+  private lexer: { next(): Token }
+  private current!: Token
+  private peeked?: Token
+  // labels of the loops enclosing the statement being parsed (undefined for
+  // unlabeled loops); reset for function and handler bodies
+  private loops: (string | undefined)[] = []
+
+  constructor(src: string, private file?: string) {
     this.lexer = new Lexer(src)
-    this.current = this.lexer.next()
+    this.withFile(() => { this.current = this.lexer.next() })
+  }
+
+  private withFile<T>(fn: () => T): T {
+    try {
+      return fn()
+    } catch (e) {
+      if (e instanceof CascError) e.locate(undefined, this.file)
+      throw e
+    }
   }
 
-  private advance() { this.current = this.lexer.next() }
+  private advance() {
+    this.current = this.peeked ?? this.lexer.next()
+    this.peeked = undefined
+  }
+  private peek(): Token { return this.peeked ??= this.lexer.next() }
   private is(kind: TokenKind) { return this.current.kind === kind }
+  private spanOf(t: Token): Span { return { line: t.line, column: t.column } }
+  private here(): Span { return this.spanOf(this.current) }
+  private error(message: string, span: Span = this.here()): never {
+    throw new CascError("syntax", message, span, this.file)
+  }
   private match(kind: TokenKind) {
-    if (this.current.kind !== kind) throw new Error(`Expected ${kind} but got ${this.current.kind}`)
+    if (this.current.kind !== kind) this.error(`Expected ${kind} but got ${this.current.kind}`)
     const t = this.current; this.advance(); return t
   }
 
   parseProgram(): Program {
-    const statements = [] as Program["statements"]
-    while (this.current.kind !== TokenKind.EOF) statements.push(this.parseStatement())
-    return { statements }
+    return this.withFile(() => {
+      const statements = [] as Program["statements"]
+      while (this.current.kind !== TokenKind.EOF) statements.push(this.parseStatement())
+      return { statements, file: this.file }
+    })
   }
 
   private parseStatement(): any {
@@ -48,53 +93,229 @@ export class Parser {
       case TokenKind.LBRACE: return this.parseBlock()
       case TokenKind.IF: return this.parseIf()
       case TokenKind.WHILE: return this.parseWhile()
-      case TokenKind.FN: return this.parseFnDecl()
+      case TokenKind.FOR: return this.parseFor()
+      case TokenKind.BREAK:
+      case TokenKind.CONTINUE: return this.parseJump()
+      case TokenKind.THROW: {
+        const span = this.spanOf(this.match(TokenKind.THROW))
+        const value = this.parseExpression()
+        if (this.is(TokenKind.SEMICOLON)) this.advance()
+        return { kind: "ThrowStmt", span, value }
+      }
+      case TokenKind.TRY: return this.parseTry()
+      case TokenKind.FN: return this.peek().kind === TokenKind.LPAREN ? this.parseAssign() : this.parseFnDecl()
       case TokenKind.RETURN: return this.parseReturn()
-      default: return this.parseAssign()
+      case TokenKind.IMPORT: return this.parseImport()
+      case TokenKind.EXPORT: return this.parseExport()
+      case TokenKind.DELETE: {
+        const span = this.spanOf(this.match(TokenKind.DELETE))
+        const target = this.parseExpression()
+        if (this.is(TokenKind.SEMICOLON)) this.advance()
+        return { kind: "DeleteStmt", span, target }
+      }
+      case TokenKind.ATOMIC: return { kind: "AtomicStmt", span: this.spanOf(this.match(TokenKind.ATOMIC)), body: this.parseBlock() }
+      case TokenKind.ABORT: {
+        const span = this.spanOf(this.match(TokenKind.ABORT))
+        if (this.is(TokenKind.SEMICOLON)) this.advance()
+        return { kind: "AbortStmt", span }
+      }
+      default:
+        if (this.is(TokenKind.IDENT) && this.peek().kind === TokenKind.COLON) return this.parseLabeled()
+        return this.parseAssign()
+    }
+  }
+
+  // `name: while (...)` / `name: for (...)`
+  private parseLabeled(): any {
+    const t = this.match(TokenKind.IDENT)
+    this.match(TokenKind.COLON)
+    if (!this.is(TokenKind.WHILE) && !this.is(TokenKind.FOR)) this.error(`Only loops can be labeled, got ${this.current.kind} after '${t.lexeme}:'`)
+    if (this.loops.includes(t.lexeme)) this.error(`Label '${t.lexeme}' is already used by an enclosing loop`, this.spanOf(t))
+    return this.is(TokenKind.WHILE) ? this.parseWhile(t.lexeme) : this.parseFor(t.lexeme)
+  }
+
+  private parseLoopBody(label: string | undefined): Statement {
+    this.loops.push(label)
+    try {
+      return this.parseStatement()
+    } finally {
+      this.loops.pop()
+    }
+  }
+
+  // function and handler bodies cannot break out of the loops around them
+  private outsideLoops<T>(fn: () => T): T {
+    const loops = this.loops
+    this.loops = []
+    try {
+      return fn()
+    } finally {
+      this.loops = loops
+    }
+  }
+
+  // `break` / `continue`, optionally followed by a label on the same line
+  private parseJump(): BreakStmt | ContinueStmt {
+    const t = this.current
+    const kind = t.kind === TokenKind.BREAK ? "BreakStmt" : "ContinueStmt"
+    this.advance()
+    if (!this.loops.length) this.error(`'${t.lexeme}' outside of a loop`, this.spanOf(t))
+    let label: string | undefined
+    if (this.is(TokenKind.IDENT) && this.current.line === t.line) {
+      label = this.current.lexeme
+      if (!this.loops.includes(label)) this.error(`Unknown loop label '${label}'`)
+      this.advance()
+    }
+    if (this.is(TokenKind.SEMICOLON)) this.advance()
+    return { kind, span: this.spanOf(t), label }
+  }
+
+  private parseImport(): ImportStmt {
+    const span = this.spanOf(this.match(TokenKind.IMPORT))
+    this.match(TokenKind.LBRACE)
+    const names: ImportStmt["names"] = []
+    while (!this.is(TokenKind.RBRACE)) {
+      const t = this.match(TokenKind.IDENT)
+      names.push({ name: t.lexeme, span: this.spanOf(t) })
+      if (!this.is(TokenKind.COMMA)) break
+      this.advance()
     }
+    this.match(TokenKind.RBRACE)
+    // `from` is not reserved, so fields and variables can use the name
+    if (!this.is(TokenKind.IDENT) || this.current.lexeme !== "from") this.error(`Expected 'from' but got ${this.current.kind}`)
+    this.advance()
+    const source = this.match(TokenKind.STRING).lexeme
+    if (this.is(TokenKind.SEMICOLON)) this.advance()
+    return { kind: "ImportStmt", span, names, source }
   }
 
-  private parseLet(): LetStmt {
-    this.match(TokenKind.LET)
+  private parseExport(): any {
+    this.match(TokenKind.EXPORT)
+    if (!this.is(TokenKind.LET) && !this.is(TokenKind.STRUCT) && !this.is(TokenKind.FN)) this.error("Only let, struct and fn declarations can be exported")
+    const stmt = this.parseStatement()
+    // methods travel with their struct; `fn (x) ...` is an anonymous function
+    if (stmt.kind === "ExprStmt" || stmt.receiver) this.error("Only let, struct and fn declarations can be exported", stmt.span)
+    return { ...stmt, exported: true }
+  }
+
+  // `terminated` is false inside a for header, where the `;` is required
+  private parseLet(terminated = true): LetStmt {
+    const span = this.spanOf(this.match(TokenKind.LET))
     const name = this.match(TokenKind.IDENT).lexeme
+    const type = this.parseOptionalAnnotation()
     let value: Expression | undefined
     if (this.current.kind === TokenKind.EQUAL) { this.advance(); value = this.parseExpression() }
-    if (this.is(TokenKind.SEMICOLON)) this.advance()
-    return { kind: "LetStmt", name, value }
+    if (terminated && this.is(TokenKind.SEMICOLON)) this.advance()
+    return { kind: "LetStmt", span, name, type, value }
   }
 
   private parseStruct(): StructStmt {
-    this.match(TokenKind.STRUCT)
+    const span = this.spanOf(this.match(TokenKind.STRUCT))
     const name = this.match(TokenKind.IDENT).lexeme
     this.match(TokenKind.LBRACE)
     const fields: StructField[] = []
+    const computed: ComputedField[] = []
+    const invariants: Invariant[] = []
+    let onDelete: StructStmt["onDelete"]
     while (this.current.kind !== TokenKind.RBRACE) {
+      const fieldSpan = this.here()
       let optional = false
-      if (this.current.kind === TokenKind.OPTIONAL) { optional = true; this.advance() }
-      else if (this.current.kind === TokenKind.MANDATORY) { optional = false; this.advance() }
-      const fieldName = this.match(TokenKind.IDENT).lexeme
+      let policy: DeletePolicy | undefined
+      const mandatory = this.current.kind === TokenKind.MANDATORY
+      if (this.current.kind === TokenKind.OPTIONAL || this.current.kind === TokenKind.MANDATORY) {
+        optional = this.current.kind === TokenKind.OPTIONAL
+        this.advance()
+        if (this.is(TokenKind.LPAREN)) policy = this.parsePolicy()
+      }
+      let fieldName = this.match(TokenKind.IDENT).lexeme
+      let owned = false
+      let weak = false
+      let index: FieldIndex | undefined
+      // `weak x`, `unique x` / `indexed x`, `owned x`, and bare `restrict x` /
+      // `compact xs` (optional fields with that policy); the words stay usable
+      // as field names
+      if (fieldName === "weak" && this.is(TokenKind.IDENT)) {
+        if (mandatory) this.error("A weak field cannot be mandatory", fieldSpan)
+        if (policy) this.error("A weak field cannot have a deletion policy", fieldSpan)
+        weak = optional = true
+        fieldName = this.match(TokenKind.IDENT).lexeme
+      }
+      if ((fieldName === "unique" || fieldName === "indexed") && this.is(TokenKind.IDENT)) {
+        if (weak) this.error(`A weak field cannot be ${fieldName}`, fieldSpan)
+        index = fieldName
+        fieldName = this.match(TokenKind.IDENT).lexeme
+      }
+      if (fieldName === "owned" && this.is(TokenKind.IDENT)) {
+        if (weak) this.error("A weak field cannot be owned", fieldSpan)
+        owned = true
+        fieldName = this.match(TokenKind.IDENT).lexeme
+      }
+      if ((fieldName === "restrict" || fieldName === "compact") && policy === undefined && this.is(TokenKind.IDENT)) {
+        if (weak) this.error("A weak field cannot have a deletion policy", fieldSpan)
+        policy = fieldName
+        optional = true
+        fieldName = this.match(TokenKind.IDENT).lexeme
+      }
+      // `computed name = expr` and `invariant expr [else delete]`; both words
+      // stay usable as field names
+      if (fieldName === "computed" && this.is(TokenKind.IDENT)) {
+        const name = this.match(TokenKind.IDENT).lexeme
+        this.match(TokenKind.EQUAL)
+        computed.push({ span: fieldSpan, name, expr: this.parseExpression() })
+        if (this.current.kind === TokenKind.COMMA) this.advance()
+        continue
+      }
+      if (fieldName === "invariant" && !this.is(TokenKind.COLON) && !this.is(TokenKind.COMMA) && !this.is(TokenKind.RBRACE)) {
+        const expr = this.parseExpression()
+        let cascade = false
+        if (this.is(TokenKind.ELSE)) {
+          this.advance()
+          this.match(TokenKind.DELETE)
+          cascade = true
+        }
+        invariants.push({ span: fieldSpan, expr, cascade })
+        if (this.current.kind === TokenKind.COMMA) this.advance()
+        continue
+      }
+      // `on delete(...) { ... }`; "on" stays usable as a field name
+      if (fieldName === "on" && this.is(TokenKind.DELETE)) {
+        if (onDelete) this.error("Struct already has an on delete handler", fieldSpan)
+        this.advance()
+        onDelete = { span: fieldSpan, params: this.parseParams(), body: this.outsideLoops(() => this.parseBlock()) }
+        if (this.current.kind === TokenKind.COMMA) this.advance()
+        continue
+      }
+      const type = this.parseOptionalAnnotation()
       if (this.current.kind === TokenKind.COMMA) this.advance()
-      fields.push({ name: fieldName, optional })
+      fields.push({ span: fieldSpan, name: fieldName, optional, policy, owned, index, weak, type })
     }
     this.match(TokenKind.RBRACE)
+    for (const c of computed) if (fields.some(f => f.name === c.name)) this.error(`Computed field '${c.name}' clashes with a field of ${name}`, c.span)
     if (this.is(TokenKind.SEMICOLON)) this.advance()
-    return { kind: "StructStmt", name, fields }
+    return { kind: "StructStmt", span, name, fields, onDelete, ...(computed.length ? { computed } : {}), ...(invariants.length ? { invariants } : {}) }
   }
 
   private parsePrint(): PrintStmt {
-    this.match(TokenKind.PRINT)
+    const span = this.spanOf(this.match(TokenKind.PRINT))
     this.match(TokenKind.LPAREN)
     const expr = this.parseExpression()
     this.match(TokenKind.RPAREN)
     if (this.is(TokenKind.SEMICOLON)) this.advance()
-    return { kind: "PrintStmt", expr }
+    return { kind: "PrintStmt", span, expr }
   }
 
   private parseAssign(): AssignStmt | ExprStmt {
-    const expr = this.parseAssignmentExpr()
+    const stmt = this.parseSimpleStatement()
     if (this.is(TokenKind.SEMICOLON)) this.advance()
+    return stmt
+  }
+
+  // an assignment or expression statement without its `;`
+  private parseSimpleStatement(): AssignStmt | ExprStmt {
+    const span = this.here()
+    const expr = this.parseAssignmentExpr()
     if ((expr as any).__assign) return (expr as any).__assign
-    return { kind: "ExprStmt", expr }
+    return { kind: "ExprStmt", span, expr }
   }
 
   private parseExpression(): Expression {
@@ -103,62 +324,62 @@ export class Parser {
 
   private parseLogicalOr(): Expression {
     let expr = this.parseLogicalAnd()
-    while (this.current.kind === TokenKind.OROR) { const op = this.current.lexeme; this.advance(); const right = this.parseLogicalAnd(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while (this.current.kind === TokenKind.OROR) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseLogicalAnd(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseLogicalAnd(): Expression {
     let expr = this.parseEquality()
-    while (this.current.kind === TokenKind.ANDAND) { const op = this.current.lexeme; this.advance(); const right = this.parseEquality(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while (this.current.kind === TokenKind.ANDAND) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseEquality(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseEquality(): Expression {
     let expr = this.parseComparison()
-    while (this.current.kind === TokenKind.EQEQ || this.current.kind === TokenKind.BANGEQ) { const op = this.current.lexeme; this.advance(); const right = this.parseComparison(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while (this.current.kind === TokenKind.EQEQ || this.current.kind === TokenKind.BANGEQ) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseComparison(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseComparison(): Expression {
     let expr = this.parseTerm()
-    while ([TokenKind.LT, TokenKind.GT, TokenKind.LTEQ, TokenKind.GTEQ].includes(this.current.kind)) { const op = this.current.lexeme; this.advance(); const right = this.parseTerm(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while ([TokenKind.LT, TokenKind.GT, TokenKind.LTEQ, TokenKind.GTEQ].includes(this.current.kind)) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseTerm(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseTerm(): Expression {
     let expr = this.parseFactor()
-    while (this.current.kind === TokenKind.PLUS || this.current.kind === TokenKind.MINUS) { const op = this.current.lexeme; this.advance(); const right = this.parseFactor(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while (this.current.kind === TokenKind.PLUS || this.current.kind === TokenKind.MINUS) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseFactor(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseFactor(): Expression {
     let expr = this.parseUnary()
-    while (this.current.kind === TokenKind.STAR || this.current.kind === TokenKind.SLASH) { const op = this.current.lexeme; this.advance(); const right = this.parseUnary(); expr = { kind: "BinaryExpr", left: expr, op, right } }
+    while (this.current.kind === TokenKind.STAR || this.current.kind === TokenKind.SLASH) { const span = this.here(); const op = this.current.lexeme; this.advance(); const right = this.parseUnary(); expr = { kind: "BinaryExpr", span, left: expr, op, right } }
     return expr
   }
 
   private parseUnary(): Expression {
-    if (this.current.kind === TokenKind.BANG || this.current.kind === TokenKind.MINUS) { const op = this.current.lexeme; this.advance(); const expr = this.parseUnary(); return { kind: "UnaryExpr", op: op as any, expr } }
+    if (this.current.kind === TokenKind.BANG || this.current.kind === TokenKind.MINUS) { const span = this.here(); const op = this.current.lexeme; this.advance(); const expr = this.parseUnary(); return { kind: "UnaryExpr", span, op: op as any, expr } }
     return this.parseCallIndexAccess()
   }
 
   private parseCallIndexAccess(): Expression {
     let expr: Expression
     if (this.current.kind === TokenKind.NEW) expr = this.parseTypedObject()
-    else if (this.current.kind === TokenKind.LBRACE) expr = this.parseObject(undefined)
+    else if (this.current.kind === TokenKind.LBRACE) expr = this.parseObject(undefined, this.here())
     else if (this.current.kind === TokenKind.LBRACKET) expr = this.parseArray()
     else expr = this.parsePrimary()
     while (true) {
       if (this.current.kind === TokenKind.DOT) {
-        this.advance(); const prop = this.match(TokenKind.IDENT).lexeme; expr = { kind: "AccessExpr", base: expr, prop }; continue
+        this.advance(); const t = this.match(TokenKind.IDENT); expr = { kind: "AccessExpr", span: this.spanOf(t), base: expr, prop: t.lexeme }; continue
       }
       if (this.current.kind === TokenKind.LBRACKET) {
-        this.advance(); const idx = this.parseExpression(); this.match(TokenKind.RBRACKET); expr = { kind: "IndexExpr", base: expr, index: idx }; continue
+        const span = this.here(); this.advance(); const idx = this.parseExpression(); this.match(TokenKind.RBRACKET); expr = { kind: "IndexExpr", span, base: expr, index: idx }; continue
       }
       if (this.current.kind === TokenKind.LPAREN) {
         this.advance(); const args: Expression[] = []
         if (!this.is(TokenKind.RPAREN)) { args.push(this.parseExpression()); while (this.is(TokenKind.COMMA)) { this.advance(); args.push(this.parseExpression()) } }
-        this.match(TokenKind.RPAREN); expr = { kind: "CallExpr", callee: expr, args }; continue
+        this.match(TokenKind.RPAREN); expr = { kind: "CallExpr", span: expr.span, callee: expr, args }; continue
       }
       break
     }
@@ -168,108 +389,254 @@ export class Parser {
   private parseAssignmentExpr(): any {
     const start = this.parseCallIndexAccess()
     if (this.current.kind === TokenKind.EQUAL) {
+      const span = this.here()
       this.advance()
       const value = this.parseExpression()
       const target = this.toLValue(start)
-      return { __assign: { kind: "AssignStmt", target, value } }
+      return { __assign: { kind: "AssignStmt", span, target, value } }
     }
     return start
   }
 
   private toLValue(expr: Expression): any {
-    if (expr.kind === "IdentExpr") return { kind: "IdentTarget", name: (expr as any).name }
+    if (expr.kind === "IdentExpr") return { kind: "IdentTarget", span: expr.span, name: (expr as any).name }
     if (expr.kind === "AccessExpr") return expr
     if (expr.kind === "IndexExpr") return expr
-    throw new Error("Invalid assignment target")
+    this.error("Invalid assignment target", expr.span)
   }
 
   private parseAccessOrPrimary(): Expression {
     let expr = this.parsePrimary()
     while (this.current.kind === TokenKind.DOT) {
       this.advance()
-      const prop = this.match(TokenKind.IDENT).lexeme
-      expr = { kind: "AccessExpr", base: expr, prop }
+      const t = this.match(TokenKind.IDENT)
+      expr = { kind: "AccessExpr", span: this.spanOf(t), base: expr, prop: t.lexeme }
     }
     return expr
   }
 
   private parseAccess(): AccessExpr { throw new Error("deprecated") }
 
-  private parseObject(typeName: string | undefined): ObjectLit {
+  private parseObject(typeName: string | undefined, span: Span): ObjectLit {
     this.match(TokenKind.LBRACE)
     const props: ObjectLit["props"] = []
     while (this.current.kind !== TokenKind.RBRACE) {
-      const key = this.match(TokenKind.IDENT).lexeme
+      const keyTok = this.match(TokenKind.IDENT)
       let value: Expression | undefined
       if (this.current.kind === TokenKind.COLON) { this.advance(); value = this.parseExpression() }
       if (this.current.kind === TokenKind.COMMA) this.advance()
-      props.push({ key, value })
+      props.push({ key: keyTok.lexeme, value, span: this.spanOf(keyTok) })
     }
     this.match(TokenKind.RBRACE)
-    return { kind: "ObjectLit", typeName, props }
+    return { kind: "ObjectLit", span, typeName, props }
   }
 
   private parseTypedObject(): ObjectLit {
-    this.match(TokenKind.NEW)
+    const span = this.spanOf(this.match(TokenKind.NEW))
     const typeName = this.match(TokenKind.IDENT).lexeme
-    return this.parseObject(typeName)
+    return this.parseObject(typeName, span)
   }
 
   private parseBlock(): any {
-    this.match(TokenKind.LBRACE)
+    const span = this.spanOf(this.match(TokenKind.LBRACE))
     const statements: any[] = []
-    while (this.current.kind !== TokenKind.RBRACE) statements.push(this.parseStatement())
+    while (this.current.kind !== TokenKind.RBRACE) {
+      if (this.is(TokenKind.EOF)) this.error("Unexpected end of input, expected RBRACE")
+      statements.push(this.parseStatement())
+    }
     this.match(TokenKind.RBRACE)
-    return { kind: "BlockStmt", statements }
+    return { kind: "BlockStmt", span, statements }
   }
 
   private parseIf(): any {
-    this.match(TokenKind.IF)
+    const span = this.spanOf(this.match(TokenKind.IF))
     this.match(TokenKind.LPAREN)
     const condition = this.parseExpression()
     this.match(TokenKind.RPAREN)
     const thenBranch = this.parseStatement()
     let elseBranch
     if (this.current.kind === TokenKind.ELSE) { this.advance(); elseBranch = this.parseStatement() }
-    return { kind: "IfStmt", condition, thenBranch, elseBranch }
+    return { kind: "IfStmt", span, condition, thenBranch, elseBranch }
   }
 
-  private parseWhile(): any {
-    this.match(TokenKind.WHILE)
+  private parseWhile(label?: string): any {
+    const span = this.spanOf(this.match(TokenKind.WHILE))
     this.match(TokenKind.LPAREN)
     const condition = this.parseExpression()
     this.match(TokenKind.RPAREN)
-    const body = this.parseStatement()
-    return { kind: "WhileStmt", condition, body }
+    const body = this.parseLoopBody(label)
+    return { kind: "WhileStmt", span, condition, body, ...(label ? { label } : {}) }
   }
 
-  private parseFnDecl(): any {
-    this.match(TokenKind.FN)
-    const name = this.match(TokenKind.IDENT).lexeme
+  private parseFor(label?: string): ForStmt | ForInStmt {
+    const span = this.spanOf(this.match(TokenKind.FOR))
     this.match(TokenKind.LPAREN)
-    const params: string[] = []
-    if (this.current.kind !== TokenKind.RPAREN) { params.push(this.match(TokenKind.IDENT).lexeme); while (this.current.kind === TokenKind.COMMA) { this.advance(); params.push(this.match(TokenKind.IDENT).lexeme) } }
+    // `x in` or `k, v in` starts a for-in loop
+    const next = this.is(TokenKind.IDENT) ? this.peek() : undefined
+    if (next && (next.kind === TokenKind.COMMA || (next.kind === TokenKind.IDENT && next.lexeme === "in"))) {
+      const names = [this.match(TokenKind.IDENT).lexeme]
+      if (this.is(TokenKind.COMMA)) { this.advance(); names.push(this.match(TokenKind.IDENT).lexeme) }
+      if (this.current.lexeme !== "in") this.error(`Expected 'in' but got ${this.current.kind}`)
+      this.advance()
+      const iterable = this.parseExpression()
+      this.match(TokenKind.RPAREN)
+      return { kind: "ForInStmt", span, names, iterable, body: this.parseLoopBody(label), ...(label ? { label } : {}) }
+    }
+    let init: ForStmt["init"]
+    if (this.is(TokenKind.LET)) init = this.parseLet(false)
+    else if (!this.is(TokenKind.SEMICOLON)) init = this.parseSimpleStatement()
+    this.match(TokenKind.SEMICOLON)
+    const condition = this.is(TokenKind.SEMICOLON) ? undefined : this.parseExpression()
+    this.match(TokenKind.SEMICOLON)
+    const update = this.is(TokenKind.RPAREN) ? undefined : this.parseSimpleStatement()
     this.match(TokenKind.RPAREN)
+    const body = this.parseLoopBody(label)
+    return { kind: "ForStmt", span, init, condition, update, body, ...(label ? { label } : {}) }
+  }
+
+  private parseTry(): TryStmt {
+    const span = this.spanOf(this.match(TokenKind.TRY))
     const body = this.parseBlock()
-    return { kind: "FnDeclStmt", name, params, body }
+    let handler: TryStmt["handler"]
+    let finalizer: BlockStmt | undefined
+    if (this.is(TokenKind.CATCH)) {
+      const handlerSpan = this.spanOf(this.match(TokenKind.CATCH))
+      this.match(TokenKind.LPAREN)
+      const name = this.match(TokenKind.IDENT).lexeme
+      this.match(TokenKind.RPAREN)
+      handler = { span: handlerSpan, name, body: this.parseBlock() }
+    }
+    if (this.is(TokenKind.FINALLY)) { this.advance(); finalizer = this.parseBlock() }
+    if (!handler && !finalizer) this.error("Expected catch or finally after try block")
+    return { kind: "TryStmt", span, body, handler, finalizer }
+  }
+
+  private parseFnDecl(): any {
+    const span = this.spanOf(this.match(TokenKind.FN))
+    let name = this.match(TokenKind.IDENT).lexeme
+    let receiver: string | undefined
+    if (this.is(TokenKind.DOT)) {
+      this.advance()
+      receiver = name
+      name = this.match(TokenKind.IDENT).lexeme
+    }
+    const params = this.parseParams()
+    if (receiver && !params.length) this.error(`Method ${receiver}.${name} needs a parameter for the object it is called on`, span)
+    const returnType = this.parseOptionalAnnotation()
+    const body = this.outsideLoops(() => this.parseBlock())
+    return { kind: "FnDeclStmt", span, name, ...(receiver ? { receiver } : {}), params, returnType, body }
+  }
+
+  // Each `${...}` of the template token is parsed from its own tokens.
+  private parseTemplate(): TemplateExpr {
+    const t = this.match(TokenKind.TEMPLATE)
+    const strings: string[] = []
+    const exprs: Expression[] = []
+    const { lexer, current, peeked } = this
+    try {
+      for (const part of t.parts!) {
+        if (typeof part === "string") { strings.push(part); continue }
+        const end = part[part.length - 1]
+        const eof: Token = { kind: TokenKind.EOF, lexeme: "", line: end.line, column: end.column + end.lexeme.length }
+        let i = 0
+        this.lexer = { next: () => part[i++] ?? eof }
+        this.peeked = undefined
+        this.advance()
+        exprs.push(this.parseExpression())
+        if (!this.is(TokenKind.EOF)) this.error(`Unexpected ${this.current.kind} in template string`)
+      }
+    } finally {
+      this.lexer = lexer; this.current = current; this.peeked = peeked
+    }
+    return { kind: "TemplateExpr", span: this.spanOf(t), strings, exprs }
+  }
+
+  private parseFnExpr(): FnExpr {
+    const span = this.spanOf(this.match(TokenKind.FN))
+    const params = this.parseParams()
+    const returnType = this.parseOptionalAnnotation()
+    if (!this.is(TokenKind.ARROW)) return { kind: "FnExpr", span, params, returnType, body: this.outsideLoops(() => this.parseBlock()) }
+    const arrow = this.spanOf(this.match(TokenKind.ARROW))
+    const value = this.parseExpression()
+    return { kind: "FnExpr", span, params, returnType, body: { kind: "BlockStmt", span: arrow, statements: [{ kind: "ReturnStmt", span: value.span, value }] } }
+  }
+
+  private parseParams(): Param[] {
+    this.match(TokenKind.LPAREN)
+    const params: Param[] = []
+    if (this.current.kind !== TokenKind.RPAREN) { params.push(this.parseParam()); while (this.current.kind === TokenKind.COMMA) { this.advance(); params.push(this.parseParam()) } }
+    this.match(TokenKind.RPAREN)
+    return params
+  }
+
+  private parseParam(): Param {
+    const t = this.match(TokenKind.IDENT)
+    return { span: this.spanOf(t), name: t.lexeme, type: this.parseOptionalAnnotation() }
+  }
+
+  private parseOptionalAnnotation(): TypeExpr | undefined {
+    if (!this.is(TokenKind.COLON)) return undefined
+    this.advance()
+    return this.parseType()
+  }
+
+  private parseType(): TypeExpr {
+    const span = this.here()
+    let type: TypeExpr
+    if (this.is(TokenKind.LBRACKET)) {
+      this.advance()
+      const element = this.parseType()
+      this.match(TokenKind.RBRACKET)
+      type = { kind: "ArrayType", span, element, elements: this.parseElementPolicy() }
+    } else if (this.is(TokenKind.HASH)) {
+      this.advance()
+      this.match(TokenKind.LBRACE)
+      const value = this.parseType()
+      this.match(TokenKind.RBRACE)
+      type = { kind: "MapType", span, value, elements: this.parseElementPolicy() }
+    } else if (this.is(TokenKind.NULL)) {
+      this.advance()
+      type = { kind: "NamedType", span, name: "null" }
+    } else {
+      type = { kind: "NamedType", span, name: this.match(TokenKind.IDENT).lexeme }
+    }
+    if (this.is(TokenKind.QUESTION)) { this.advance(); type = { kind: "NullableType", span, inner: type } }
+    return type
+  }
+
+  private parseElementPolicy(): ArrayType["elements"] {
+    if (!this.is(TokenKind.BANG)) return undefined
+    this.advance()
+    return this.is(TokenKind.LPAREN) ? this.parsePolicy() : "cascade"
+  }
+
+  // `(cascade)`, `(nullify)`, `(restrict)` or `(compact)`
+  private parsePolicy(): DeletePolicy {
+    this.match(TokenKind.LPAREN)
+    const t = this.match(TokenKind.IDENT)
+    const policy = DELETE_POLICIES.find(p => p === t.lexeme)
+    if (!policy) this.error(`Unknown deletion policy '${t.lexeme}', expected ${DELETE_POLICIES.join(", ")}`, this.spanOf(t))
+    this.match(TokenKind.RPAREN)
+    return policy
   }
 
   private parseReturn(): any {
-    this.match(TokenKind.RETURN)
+    const span = this.spanOf(this.match(TokenKind.RETURN))
     let value: Expression | undefined
     if (!this.is(TokenKind.SEMICOLON) && !this.is(TokenKind.RBRACE)) value = this.parseExpression()
     if (this.is(TokenKind.SEMICOLON)) this.advance()
-    return { kind: "ReturnStmt", value }
+    return { kind: "ReturnStmt", span, value }
   }
 
   private parsePrimary(): Expression {
+    const span = this.here()
     switch (this.current.kind) {
-      case TokenKind.NUMBER: { const t = this.current; this.advance(); return { kind: "NumberLit", value: Number(t.lexeme) } }
-      case TokenKind.STRING: { const t = this.current; this.advance(); return { kind: "StringLit", value: t.lexeme } }
-      case TokenKind.TRUE: { this.advance(); return { kind: "BoolLit", value: true } }
-      case TokenKind.FALSE: { this.advance(); return { kind: "BoolLit", value: false } }
-      case TokenKind.NULL: { this.advance(); return { kind: "NullLit" } }
-      case TokenKind.IDENT: { const name = this.current.lexeme; this.advance(); return { kind: "IdentExpr", name } }
+      case TokenKind.NUMBER: { const t = this.current; this.advance(); return { kind: "NumberLit", span, value: Number(t.lexeme) } }
+      case TokenKind.STRING: { const t = this.current; this.advance(); return { kind: "StringLit", span, value: t.lexeme } }
+      case TokenKind.TRUE: { this.advance(); return { kind: "BoolLit", span, value: true } }
+      case TokenKind.FALSE: { this.advance(); return { kind: "BoolLit", span, value: false } }
+      case TokenKind.NULL: { this.advance(); return { kind: "NullLit", span } }
+      case TokenKind.IDENT: { const name = this.current.lexeme; this.advance(); return { kind: "IdentExpr", span, name } }
       case TokenKind.LPAREN: {
         this.advance()
         const e = this.parseExpression()
@@ -277,17 +644,38 @@ export class Parser {
         return e
       }
       case TokenKind.LBRACKET: return this.parseArray()
+      case TokenKind.HASH: return this.parseMap()
+      case TokenKind.FN: return this.parseFnExpr()
+      case TokenKind.TEMPLATE: return this.parseTemplate()
       default:
-        throw new Error(`Unexpected token ${this.current.kind}`)
+        this.error(`Unexpected token ${this.current.kind}`)
     }
   }
 
   private parseArray(): any {
-    this.match(TokenKind.LBRACKET)
+    const span = this.spanOf(this.match(TokenKind.LBRACKET))
     const elements: Expression[] = []
     if (!this.is(TokenKind.RBRACKET)) { elements.push(this.parseExpression()); while (this.is(TokenKind.COMMA)) { this.advance(); elements.push(this.parseExpression()) } }
     this.match(TokenKind.RBRACKET)
-    return { kind: "ArrayLit", elements }
+    return { kind: "ArrayLit", span, elements }
   }
-}
 
+  // `#{ "k": v, ... }`, optionally with the entry policy: `#(compact){ ... }`
+  private parseMap(): MapLit {
+    const span = this.spanOf(this.match(TokenKind.HASH))
+    const policy = this.is(TokenKind.LPAREN) ? this.parsePolicy() : undefined
+    this.match(TokenKind.LBRACE)
+    const entries: MapLit["entries"] = []
+    while (!this.is(TokenKind.RBRACE)) {
+      if (!this.is(TokenKind.STRING)) this.error(`Map keys must be string literals, got ${this.current.kind}`)
+      const keyTok = this.current
+      this.advance()
+      if (entries.some(e => e.key === keyTok.lexeme)) this.error(`Duplicate map key ${JSON.stringify(keyTok.lexeme)}`, this.spanOf(keyTok))
+      this.match(TokenKind.COLON)
+      entries.push({ key: keyTok.lexeme, value: this.parseExpression(), span: this.spanOf(keyTok) })
+      if (this.is(TokenKind.COMMA)) this.advance()
+    }
+    this.match(TokenKind.RBRACE)
+    return { kind: "MapLit", span, entries, ...(policy ? { policy } : {}) }
+  }
+}
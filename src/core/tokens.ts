@@ -3,6 +3,7 @@ export enum TokenKind {
   IDENT = "IDENT",
   NUMBER = "NUMBER",
   STRING = "STRING",
+  TEMPLATE = "TEMPLATE",
   TRUE = "TRUE",
   FALSE = "FALSE",
   NULL = "NULL",
@@ -15,6 +16,18 @@ export enum TokenKind {
   IF = "IF",
   ELSE = "ELSE",
   WHILE = "WHILE",
+  FOR = "FOR",
+  BREAK = "BREAK",
+  CONTINUE = "CONTINUE",
+  THROW = "THROW",
+  TRY = "TRY",
+  CATCH = "CATCH",
+  FINALLY = "FINALLY",
+  IMPORT = "IMPORT",
+  EXPORT = "EXPORT",
+  DELETE = "DELETE",
+  ATOMIC = "ATOMIC",
+  ABORT = "ABORT",
   OPTIONAL = "OPTIONAL", // keyword 'optional'
   MANDATORY = "MANDATORY", // keyword 'mandatory'
   // symbols
@@ -27,8 +40,11 @@ export enum TokenKind {
   COLON = "COLON",
   SEMICOLON = "SEMICOLON",
   COMMA = "COMMA",
+  QUESTION = "QUESTION",
+  HASH = "HASH", // starts a map literal `#{...}` or map type `#{T}`
   DOT = "DOT",
   EQUAL = "EQUAL",
+  ARROW = "ARROW",
   PLUS = "PLUS",
   MINUS = "MINUS",
   STAR = "STAR",
@@ -49,6 +65,8 @@ export interface Token {
   lexeme: string
   line: number
   column: number
+  // TEMPLATE only: text parts alternating with the tokens of each `${...}`
+  parts?: (string | Token[])[]
 }
 
 export const Keywords: Record<string, TokenKind | undefined> = {
@@ -60,6 +78,18 @@ export const Keywords: Record<string, TokenKind | undefined> = {
   if: TokenKind.IF,
   else: TokenKind.ELSE,
   while: TokenKind.WHILE,
+  for: TokenKind.FOR,
+  break: TokenKind.BREAK,
+  continue: TokenKind.CONTINUE,
+  throw: TokenKind.THROW,
+  try: TokenKind.TRY,
+  catch: TokenKind.CATCH,
+  finally: TokenKind.FINALLY,
+  import: TokenKind.IMPORT,
+  export: TokenKind.EXPORT,
+  delete: TokenKind.DELETE,
+  atomic: TokenKind.ATOMIC,
+  abort: TokenKind.ABORT,
   true: TokenKind.TRUE,
   false: TokenKind.FALSE,
   null: TokenKind.NULL,
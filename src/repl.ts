@@ -0,0 +1,156 @@
+import { createInterface } from "node:readline"
+import { Lexer } from "./core/lexer.js"
+import { TokenKind } from "./core/tokens.js"
+import { Parser } from "./core/parser.js"
+import { CascError, formatError } from "./core/errors.js"
+import { Interpreter } from "./runtime/interpreter.js"
+import { FieldSpec, HeapObject, ObjectRef } from "./runtime/heap.js"
+
+const HELP = [
+  ":heap          list live objects",
+  ":types         list defined structs",
+  ":graph <id>    show the references leading to object #id",
+  ":gc            run the garbage collector",
+  ":reset         discard all objects, types and bindings",
+  ":help          show this help",
+  ":quit          leave the REPL",
+]
+
+// True when the input has unclosed braces, brackets, parentheses or strings,
+// i.e. the user is still typing a multi-line statement.
+export function isIncomplete(src: string): boolean {
+  const lexer = new Lexer(src)
+  let depth = 0
+  try {
+    for (let t = lexer.next(); t.kind !== TokenKind.EOF; t = lexer.next()) {
+      if (t.kind === TokenKind.LBRACE || t.kind === TokenKind.LPAREN || t.kind === TokenKind.LBRACKET) depth++
+      else if (t.kind === TokenKind.RBRACE || t.kind === TokenKind.RPAREN || t.kind === TokenKind.RBRACKET) depth--
+    }
+  } catch (e) {
+    return e instanceof CascError && !!e.incomplete
+  }
+  return depth > 0
+}
+
+// A field as declared, with every modifier; the slot policy of arrays and
+// maps stored in it is shown as `elements(policy)` unless `compact` said so.
+function describeField(f: FieldSpec): string {
+  const words = [`${f.optional ? "optional" : "mandatory"}${f.policy ? `(${f.policy})` : ""}`]
+  if (f.weak) words.push("weak")
+  if (f.index) words.push(f.index)
+  if (f.owned) words.push("owned")
+  words.push(f.name)
+  if (f.elements && f.policy !== "compact") words.push(`elements(${f.elements})`)
+  return words.join(" ")
+}
+
+// Line-oriented REPL state. One Interpreter (and so one heap and one global
+// environment) lives across inputs until `:reset`.
+export class Repl {
+  private interp = new Interpreter()
+  private buffer: string[] = []
+
+  constructor(private write: (line: string) => void = line => console.log(line)) {}
+
+  get prompt() { return this.buffer.length ? "... " : "casc> " }
+
+  // Feeds one line of input; returns false once the user asked to quit.
+  feed(line: string): boolean {
+    if (!this.buffer.length && line.trim().startsWith(":")) return this.command(line.trim())
+    this.buffer.push(line)
+    const src = this.buffer.join("\n")
+    if (isIncomplete(src)) return true
+    this.buffer = []
+    if (!src.trim()) return true
+    try {
+      const program = new Parser(src, "<repl>").parseProgram()
+      const last = program.statements[program.statements.length - 1]
+      const value = this.interp.evaluate(program)
+      // calls evaluated for their effect (println, ...) return null; don't echo it
+      const silent = value === undefined || (value === null && last?.kind === "ExprStmt" && last.expr.kind === "CallExpr")
+      if (!silent) this.write(this.interp.formatValue(value))
+    } catch (e) {
+      if (!(e instanceof CascError)) throw e
+      this.write(formatError(e, src))
+    }
+    return true
+  }
+
+  private command(input: string): boolean {
+    const [cmd, ...args] = input.split(/\s+/)
+    const heap = this.interp.heap
+    switch (cmd) {
+      case ":quit": case ":q": return false
+      case ":help": HELP.forEach(l => this.write(l)); break
+      case ":reset": this.interp = new Interpreter(); this.write("reset"); break
+      case ":gc": {
+        const stats = this.interp.collectGarbage()
+        this.write(`freed ${stats.freed}, live ${stats.live}`)
+        break
+      }
+      case ":heap": {
+        const objects = heap.liveObjects()
+        if (!objects.length) this.write("(empty heap)")
+        for (const obj of objects) this.write(this.describe(obj))
+        break
+      }
+      case ":types": {
+        const types = heap.typeSpecs()
+        if (!types.length) this.write("(no structs)")
+        for (const t of types) this.write(`struct ${t.name} { ${t.fields.map(describeField).join(", ")} }`)
+        break
+      }
+      case ":graph": {
+        const id = Number(args[0]?.replace(/^#/, ""))
+        const obj = heap.liveObjects().find(o => o.id === id)
+        if (!obj) { this.write(`no live object #${args[0] ?? ""}`); break }
+        this.write(`#${obj.id}${obj.typeName ? " " + obj.typeName : ""}`)
+        this.graph(obj.ref, "  ", new Set([obj.id]))
+        break
+      }
+      default: this.write(`unknown command ${cmd}, try :help`)
+    }
+    return true
+  }
+
+  private describe(obj: HeapObject): string {
+    if (obj.typeName === "__array__") {
+      const len = Number(obj.fields.get("length") ?? 0)
+      const items = Array.from({ length: len }, (_, i) => this.interp.formatValue(obj.fields.get(String(i))))
+      return `#${obj.id} [${items.join(", ")}]`
+    }
+    if (obj.typeName === "__map__") {
+      const entries = [...obj.fields].map(([k, v]) => `${JSON.stringify(k)}: ${this.interp.formatValue(v)}`)
+      return `#${obj.id} #{ ${entries.join(", ")} }`
+    }
+    const fields = [...obj.fields].map(([k, v]) => `${k}: ${this.interp.formatValue(v)}`)
+    return `#${obj.id} ${obj.typeName ?? "object"} { ${fields.join(", ")} }`
+  }
+
+  // Incoming references form a tree rooted at the object, each edge labelled
+  // with what deleting the object does to the referencing one.
+  private graph(ref: ObjectRef, indent: string, seen: Set<number>) {
+    const heap = this.interp.heap
+    for (const { parent, field } of heap.incomingOf(ref)) {
+      const owner = heap.getObject(parent)!
+      const policy = heap.policyOf(owner, field)
+      const label = policy === "cascade" ? "mandatory" : policy === "nullify" ? "optional" : policy
+      const again = seen.has(parent.id)
+      this.write(`${indent}<- #${parent.id}.${field}${owner.typeName ? ` (${owner.typeName})` : ""} ${label}${again ? " (seen)" : ""}`)
+      if (again) continue
+      seen.add(parent.id)
+      this.graph(parent, indent + "  ", seen)
+    }
+  }
+}
+
+export function startRepl() {
+  const repl = new Repl()
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: repl.prompt })
+  rl.prompt()
+  rl.on("line", line => {
+    if (!repl.feed(line)) { rl.close(); return }
+    rl.setPrompt(repl.prompt)
+    rl.prompt()
+  })
+}
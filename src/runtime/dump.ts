@@ -0,0 +1,155 @@
+import { CascError } from "../core/errors.js"
+import { DeletePolicy, FieldIndex } from "../core/ast.js"
+import { Heap, HeapObject, ObjectId, isRef, isWeak } from "./heap.js"
+
+export type DumpFormat = "json" | "dot" | "mermaid"
+
+export const DUMP_FORMATS: readonly DumpFormat[] = ["json", "dot", "mermaid"]
+
+// Version of the JSON layout below; bumped on incompatible changes.
+export const HEAP_DUMP_VERSION = 1
+
+// JSON dump layout. Objects are sorted by id and edges by (from, field), so two
+// dumps of the same heap are identical.
+export interface HeapDump {
+  version: number
+  types: { name: string; fields: { name: string; optional: boolean; policy: DeletePolicy; owned: boolean; weak: boolean; elements?: DeletePolicy; index?: FieldIndex }[] }[]
+  objects: DumpedObject[]
+  edges: DumpedEdge[]
+}
+
+export interface DumpedObject {
+  id: ObjectId
+  // struct name, "array", "map", or null for untyped objects
+  type: string | null
+  // variables holding the object
+  roots: string[]
+  owner: ObjectId | null
+  // field -> number | string | bool | null | { ref: id } | { weak: id } | { fn: name } | { struct: name }
+  fields: Record<string, any>
+}
+
+export interface DumpedEdge {
+  from: ObjectId
+  field: string
+  to: ObjectId
+  // what deleting `to` does to `from`; "cascade" edges are the mandatory ones
+  policy: DeletePolicy
+  mandatory: boolean
+  owned: boolean
+}
+
+export function dumpHeap(heap: Heap, roots: Map<ObjectId, string[]>, format: string): string {
+  const dump = heapDump(heap, roots)
+  if (format === "json") return JSON.stringify(dump, null, 2)
+  if (format === "dot") return toDot(dump)
+  if (format === "mermaid") return toMermaid(dump)
+  throw new CascError("invalid-argument", `Unknown heap dump format '${format}', expected ${DUMP_FORMATS.join(", ")}`)
+}
+
+export function heapDump(heap: Heap, roots: Map<ObjectId, string[]>): HeapDump {
+  const objects = heap.liveObjects().sort((a, b) => a.id - b.id)
+  const types = heap.typeSpecs().map(t => ({
+    name: t.name,
+    fields: t.fields.map(f => ({
+      name: f.name,
+      optional: f.optional,
+      policy: f.policy ?? (f.optional ? "nullify" : "cascade"),
+      owned: !!f.owned,
+      weak: !!f.weak,
+      ...(f.elements ? { elements: f.elements } : {}),
+      ...(f.index ? { index: f.index } : {}),
+    })),
+  }))
+  const edges: DumpedEdge[] = []
+  for (const obj of objects) {
+    for (const { parent, field } of heap.incomingOf(obj.ref)) {
+      const owner = heap.getObject(parent)!
+      const policy = heap.policyOf(owner, field)
+      edges.push({ from: parent.id, field, to: obj.id, policy, mandatory: policy === "cascade", owned: obj.owner === parent.id })
+    }
+  }
+  edges.sort((a, b) => a.from - b.from || compareFields(a.field, b.field))
+  return {
+    version: HEAP_DUMP_VERSION,
+    types,
+    objects: objects.map(obj => ({ id: obj.id, type: typeOf(obj), roots: roots.get(obj.id) ?? [], owner: obj.owner ?? null, fields: dumpFields(obj) })),
+    edges,
+  }
+}
+
+// array indices in numeric order, then named fields alphabetically
+function compareFields(a: string, b: string): number {
+  const na = Number(a), nb = Number(b)
+  if (Number.isInteger(na) && Number.isInteger(nb)) return na - nb
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function typeOf(obj: HeapObject): string | null {
+  return obj.typeName === "__array__" ? "array" : obj.typeName === "__map__" ? "map" : obj.typeName ?? null
+}
+
+function dumpFields(obj: HeapObject): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const [k, v] of obj.fields) fields[k] = dumpValue(v)
+  return fields
+}
+
+function dumpValue(v: any): any {
+  if (v === undefined || v === null) return null
+  if (isRef(v)) return { ref: v.id }
+  if (isWeak(v)) return v.target.deleted ? null : { weak: v.target.id }
+  if (typeof v === "function") return { fn: "builtin" }
+  if (v.kind === "function") return { fn: v.name ?? "anonymous" }
+  if (v.kind === "struct") return { struct: v.displayName }
+  return v
+}
+
+function label(v: any): string {
+  if (v && typeof v === "object") return "ref" in v ? `#${v.ref}` : "weak" in v ? `weak #${v.weak}` : "fn" in v ? `fn ${v.fn}` : `struct ${v.struct}`
+  return typeof v === "string" ? `"${v}"` : String(v)
+}
+
+// fields that aren't drawn as edges, as "name: value" lines
+function scalarFields(obj: DumpedObject): string[] {
+  return Object.entries(obj.fields).filter(([, v]) => !(v && typeof v === "object" && "ref" in v)).map(([k, v]) => `${k}: ${label(v)}`)
+}
+
+function toDot(dump: HeapDump): string {
+  const esc = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/[{}|<>]/g, c => `\\${c}`)
+  const lines = ["digraph heap {", "  node [shape=record, fontname=monospace];"]
+  for (const obj of dump.objects) {
+    const head = `#${obj.id} ${obj.type ?? "object"}`
+    lines.push(`  n${obj.id} [label="{${[head, ...scalarFields(obj)].map(esc).join("|")}}"];`)
+    for (const root of obj.roots) {
+      const id = `"root:${root.replace(/"/g, '\\"')}"`
+      lines.push(`  ${id} [shape=plaintext, label="${root.replace(/"/g, '\\"')}"];`, `  ${id} -> n${obj.id} [style=dotted];`)
+    }
+  }
+  // mandatory (cascade) edges are bold, other policies dashed
+  for (const e of dump.edges) {
+    const style = e.mandatory ? "style=bold" : "style=dashed"
+    const label = e.policy === "cascade" || e.policy === "nullify" ? e.field : `${e.field} (${e.policy})`
+    lines.push(`  n${e.from} -> n${e.to} [label="${esc(label)}", ${style}${e.owned ? ", arrowtail=diamond, dir=both" : ""}];`)
+  }
+  lines.push("}")
+  return lines.join("\n")
+}
+
+function toMermaid(dump: HeapDump): string {
+  const esc = (s: string) => s.replace(/"/g, "#quot;")
+  const lines = ["graph LR"]
+  for (const obj of dump.objects) {
+    const head = `#${obj.id} ${obj.type ?? "object"}`
+    lines.push(`  n${obj.id}["${[head, ...scalarFields(obj)].map(esc).join("<br/>")}"]`)
+    obj.roots.forEach((root, i) => {
+      lines.push(`  r${obj.id}_${i}(["${esc(root)}"]) -.- n${obj.id}`)
+    })
+  }
+  // mandatory (cascade) edges are thick, other policies dotted
+  for (const e of dump.edges) {
+    const label = e.policy === "cascade" || e.policy === "nullify" ? e.field : `${e.field} (${e.policy})`
+    lines.push(`  n${e.from} ${e.mandatory ? "==>" : "-.->"}|"${esc(label)}${e.owned ? " owned" : ""}"| n${e.to}`)
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,17 @@
+export interface EnvEntry { kind: "value"; value: any }
+
+export class Environment {
+  private values = new Map<string, EnvEntry>()
+  constructor(public readonly parent?: Environment) {}
+  get(name: string): EnvEntry | undefined { return this.values.get(name) ?? this.parent?.get(name) }
+  setLocal(name: string, value: any) { this.values.set(name, { kind: "value", value }) }
+  // Assigns to the nearest binding of `name`. An unbound name is declared in
+  // the module scope, the one right below the builtins: modules never write
+  // into the shared builtins, and assigning to a builtin shadows it.
+  set(name: string, value: any): boolean {
+    if (this.values.has(name)) { this.values.set(name, { kind: "value", value }); return true }
+    if (this.parent?.parent) return this.parent.set(name, value)
+    this.values.set(name, { kind: "value", value }); return true
+  }
+  entries() { return this.values.entries() }
+}
@@ -1,8 +1,53 @@
+import { DeletePolicy, FieldIndex } from "../core/ast.js"
+import { CascError } from "../core/errors.js"
+
 export type ObjectId = number
 
+// A runtime reference to a heap object. References are interned per object id,
+// so two references to the same object are identical (===). Once the object is
+// removed from the heap the reference stays around but is marked deleted.
+export class ObjectRef {
+  deleted = false
+  constructor(public readonly id: ObjectId, public readonly typeName?: string) {}
+}
+
+export function isRef(value: any): value is ObjectRef {
+  return value instanceof ObjectRef
+}
+
+// A reference made with `weak(x)` or stored in a `weak` field. It is kept out
+// of the reverse graph, so cascades and the collector never follow it, and it
+// is cleared (reads as null) once its target is deleted.
+export class WeakValue {
+  constructor(public readonly target: ObjectRef) {}
+}
+
+export function isWeak(value: any): value is WeakValue {
+  return value instanceof WeakValue
+}
+
+// incoming entries are stored as "<parentId>.<field>"
+function splitKey(parentKey: string): [ObjectId, string] {
+  const dot = parentKey.indexOf(".")
+  return [Number(parentKey.slice(0, dot)), parentKey.slice(dot + 1)]
+}
+
 export interface FieldSpec {
   name: string
+  // false: storing null in the field deletes the owner
   optional: boolean
+  // what deleting the referenced object does; defaults to cascade for
+  // mandatory fields and nullify for optional ones
+  policy?: DeletePolicy
+  // slot policy given to arrays and maps stored in the field (`[T]!`,
+  // `#{T}!(compact)`, `compact xs`)
+  elements?: DeletePolicy
+  // objects stored in the field are owned by the object holding it
+  owned?: boolean
+  // values of the field are indexed per type (`unique x`, `indexed x`)
+  index?: FieldIndex
+  // references stored in the field are weak (`weak x`)
+  weak?: boolean
 }
 
 export interface TypeSpec {
@@ -12,126 +57,755 @@ export interface TypeSpec {
 
 export interface HeapObject {
   id: ObjectId
+  ref: ObjectRef
+  typeName?: string
+  // field -> ObjectRef | primitive | null
+  fields: Map<string, any>
+  // arrays and maps only: slot policy, given by a map literal or set once the
+  // array or map is stored in a field that declares one (nullify when unset)
+  elements?: DeletePolicy
+  // the object that owns this one, if any; an object has at most one owner
+  owner?: ObjectId
+  // arrays and maps only: the elements are owned by the container (stored in
+  // an owned field)
+  owns?: boolean
+}
+
+// Why an object was removed by a cascade.
+export type DeletionCause =
+  // a mandatory field of the object was set to null
+  | { kind: "field"; field: string }
+  // a mandatory field of the object referenced `child`, which was deleted
+  | { kind: "ref"; field: string; child: ObjectRef }
+  // the object was held in the owned `field` of `owner`, which was deleted
+  | { kind: "owner"; field: string; owner: ObjectRef }
+  // the object was deleted by a `delete` statement
+  | { kind: "delete"; field?: undefined }
+  // an `invariant ... else delete` of the object failed after writing `field`
+  // (no field when the object was being created)
+  | { kind: "invariant"; field?: string }
+
+export interface Deletion {
+  ref: ObjectRef
   typeName?: string
-  // field -> ObjectId | primitive | null
+  cause: DeletionCause
+  // field values at the time of deletion
   fields: Map<string, any>
 }
 
+// One node of a cascade trace: the deleted object, why it was deleted and the
+// objects whose deletion it caused in turn.
+export interface CascadeTrace {
+  objectId: ObjectId
+  typeName?: string
+  // "mandatory field X set null", "mandatory ref to #N deleted",
+  // "owner #N deleted", "invariant violated" or "deleted explicitly" (for a
+  // `delete` statement)
+  cause: string
+  field?: string
+  children: CascadeTrace[]
+}
+
+// Builds the trace tree of one cascade from its deletions (in deletion order).
+export function traceCascade(deletions: Deletion[]): CascadeTrace {
+  const nodes = new Map<ObjectId, CascadeTrace>()
+  let root!: CascadeTrace
+  for (const { ref, typeName, cause } of deletions) {
+    const text = cause.kind === "field" ? `mandatory field ${cause.field} set null`
+      : cause.kind === "ref" ? `mandatory ref to #${cause.child.id} deleted`
+      : cause.kind === "owner" ? `owner #${cause.owner.id} deleted`
+      : cause.kind === "invariant" ? "invariant violated"
+      : "deleted explicitly"
+    const node: CascadeTrace = { objectId: ref.id, typeName, cause: text, field: cause.field, children: [] }
+    nodes.set(ref.id, node)
+    if (cause.kind === "ref") nodes.get(cause.child.id)!.children.push(node)
+    else if (cause.kind === "owner") nodes.get(cause.owner.id)!.children.push(node)
+    else root = node
+  }
+  return root
+}
+
+// `field` belongs to the node itself, except for "owner" causes where it is
+// the owner's field
+export function formatCascadeTrace(trace: CascadeTrace, indent = "", parent?: CascadeTrace): string[] {
+  const array = trace.typeName === "__array__"
+  const type = array ? " array" : trace.typeName ? ` ${trace.typeName}` : ""
+  const holder = trace.cause.startsWith("owner") ? parent : trace
+  const cause = trace.field === undefined || trace.cause.startsWith("mandatory field") ? trace.cause : `${trace.cause} (${holder?.typeName === "__array__" ? "element" : "field"} ${trace.field})`
+  const lines = [`${indent}#${trace.objectId}${type}: ${cause}`]
+  for (const child of trace.children) lines.push(...formatCascadeTrace(child, indent + "  ", trace))
+  return lines
+}
+
+export interface HeapOptions {
+  // number of allocations after which the owner should run a collection
+  gcThreshold?: number
+  // called once per cascade with the removed objects in deletion order
+  onDelete?: (deletions: Deletion[]) => void
+  // keep the trace of the last cascade in `lastCascade`
+  traceCascades?: boolean
+}
+
+// Copy of the heap contents taken by `snapshot()`.
+export interface HeapSnapshot {
+  objects: Map<ObjectId, HeapObject>
+  incoming: Map<ObjectId, Set<string>>
+}
+
+// One broken heap invariant found by `verify()`.
+export interface HeapViolation {
+  objectId: ObjectId
+  kind: "missing-incoming" | "stale-incoming" | "dead-incoming" | "dangling-ref" | "deleted-ref" | "mandatory-null" | "array-shape" | "owner" | "index" | "unique" | "weak"
+  message: string
+}
+
+export interface GcStats {
+  freed: number
+  live: number
+}
+
 export class Heap {
   private nextId = 1
+  private allocationsSinceGc = 0
+  private gcThreshold: number
+  private onDelete?: (deletions: Deletion[]) => void
+  private traceCascades: boolean
+  // trace of the most recent cascade, when tracing is enabled
+  lastCascade?: CascadeTrace
   private objects = new Map<ObjectId, HeapObject>()
   private types = new Map<string, TypeSpec>()
   // reverse reference graph: childId -> set of { parentId, fieldName }
   private incoming = new Map<ObjectId, Set<string>>()
   // arrays are also heap objects; we store array content under special field name indices
+  // maps ("__map__") store each entry as a field named by its key
+  // weak table: target id -> "<holderId>.<field>" of the weak references to it
+  private weakRefs = new Map<ObjectId, Set<string>>()
+  // struct type -> ids of its live objects
+  private instances = new Map<string, Set<ObjectId>>()
+  // struct type -> unique or indexed field -> value -> ids of the live objects
+  // holding it (null is not indexed)
+  private indexes = new Map<string, Map<string, Map<any, Set<ObjectId>>>>()
+
+  constructor(options: HeapOptions = {}) {
+    this.gcThreshold = options.gcThreshold ?? 10_000
+    this.onDelete = options.onDelete
+    this.traceCascades = options.traceCascades ?? false
+  }
 
   defineType(spec: TypeSpec) {
+    const redefined = this.types.has(spec.name)
     this.types.set(spec.name, spec)
+    // a struct declared again (e.g. in the REPL) may index other fields
+    if (redefined) this.rebuildTables()
   }
 
-  createObject(typeName?: string, initial?: Record<string, any>): ObjectId {
+  createObject(typeName?: string, initial?: Record<string, any>): ObjectRef {
     const id = this.nextId++
+    this.allocationsSinceGc++
+    const ref = new ObjectRef(id, typeName)
     const fields = new Map<string, any>()
     if (initial) for (const [k, v] of Object.entries(initial)) fields.set(k, v)
-    const obj: HeapObject = { id, typeName, fields }
+    const obj: HeapObject = { id, ref, typeName, fields }
     this.objects.set(id, obj)
-    // register incoming for object fields that are object ids
+    // register incoming for object fields that are references
     for (const [key, val] of obj.fields) this.trackIncomingIfObject(val, `${id}.${key}`)
-    return id
+    this.addToIndexes(obj)
+    return ref
+  }
+
+  // Removes an object that is not referenced by any other, without running a
+  // cascade, e.g. one whose construction failed.
+  discard(ref: ObjectRef) {
+    const obj = this.objects.get(ref.id)
+    if (obj && !this.incoming.get(ref.id)?.size) this.remove(obj)
+  }
+
+  private remove(obj: HeapObject) {
+    for (const [k, v] of obj.fields) this.untrackIncomingIfObject(v, `${obj.id}.${k}`)
+    this.removeFromIndexes(obj)
+    this.incoming.delete(obj.id)
+    this.objects.delete(obj.id)
+    obj.ref.deleted = true
+    for (const key of this.weakRefs.get(obj.id) ?? []) {
+      const [hid, field] = splitKey(key)
+      this.objects.get(hid)?.fields.set(field, null)
+    }
+    this.weakRefs.delete(obj.id)
+  }
+
+  private addToIndexes(obj: HeapObject) {
+    const spec = obj.typeName && obj.typeName !== "__array__" ? this.types.get(obj.typeName) : undefined
+    if (!spec) return
+    const instances = this.instances.get(spec.name) ?? new Set<ObjectId>()
+    instances.add(obj.id)
+    this.instances.set(spec.name, instances)
+    for (const f of spec.fields) if (f.index) this.reindex(obj, f.name, undefined, obj.fields.get(f.name))
+  }
+
+  private removeFromIndexes(obj: HeapObject) {
+    const spec = obj.typeName ? this.types.get(obj.typeName) : undefined
+    if (!spec) return
+    this.instances.get(spec.name)?.delete(obj.id)
+    for (const f of spec.fields) if (f.index) this.reindex(obj, f.name, obj.fields.get(f.name), undefined)
+  }
+
+  // Recomputes the indexes and the weak table from the objects.
+  private rebuildTables() {
+    this.instances.clear()
+    this.indexes.clear()
+    this.weakRefs.clear()
+    for (const obj of this.objects.values()) {
+      this.addToIndexes(obj)
+      for (const [k, v] of obj.fields) if (isWeak(v)) this.trackIncomingIfObject(v, `${obj.id}.${k}`)
+    }
+  }
+
+  // Moves `obj` from the index entry of `prev` to the one of `value`.
+  private reindex(obj: HeapObject, field: string, prev: any, value: any) {
+    const fieldIndex = this.indexes.get(obj.typeName!) ?? new Map<string, Map<any, Set<ObjectId>>>()
+    this.indexes.set(obj.typeName!, fieldIndex)
+    const index = fieldIndex.get(field) ?? new Map<any, Set<ObjectId>>()
+    fieldIndex.set(field, index)
+    if (prev !== undefined && prev !== null) {
+      index.get(prev)?.delete(obj.id)
+      if (!index.get(prev)?.size) index.delete(prev)
+    }
+    if (value !== undefined && value !== null) index.set(value, (index.get(value) ?? new Set<ObjectId>()).add(obj.id))
+  }
+
+  // Fails if another live object of the type holds `value` in the unique `field`.
+  private checkUnique(obj: HeapObject, field: string, value: any) {
+    if (value === undefined || value === null) return
+    const holder = [...this.indexes.get(obj.typeName!)?.get(field)?.get(value) ?? []].find(id => id !== obj.id)
+    if (holder === undefined) return
+    const shown = isRef(value) ? `#${value.id}` : typeof value === "string" ? JSON.stringify(value) : String(value)
+    throw new CascError("unique", `Duplicate value ${shown} for unique field ${obj.typeName}.${field}, already held by #${holder}`)
+  }
+
+  // Live objects of a struct type, oldest first.
+  instancesOf(typeName: string): ObjectRef[] {
+    return [...this.instances.get(typeName) ?? []].sort((a, b) => a - b).map(id => this.objects.get(id)!.ref)
+  }
+
+  // Live objects of a struct type whose unique or indexed `field` holds `value`, oldest first.
+  findBy(typeName: string, field: string, value: any): ObjectRef[] {
+    if (!this.fieldSpec(typeName, field)?.index) throw new CascError("invalid-argument", `Field ${typeName}.${field} is not unique or indexed`)
+    return [...this.indexes.get(typeName)?.get(field)?.get(value) ?? []].sort((a, b) => a - b).map(id => this.objects.get(id)!.ref)
   }
 
-  createArray(elements: any[]): ObjectId {
-    const id = this.createObject("__array__")
-    const obj = this.objects.get(id)!
+  createArray(elements: any[]): ObjectRef {
+    const ref = this.createObject("__array__")
+    const obj = this.objects.get(ref.id)!
     for (let i = 0; i < elements.length; i++) {
       const key = String(i)
       obj.fields.set(key, elements[i])
-      this.trackIncomingIfObject(elements[i], `${id}.${key}`)
+      this.trackIncomingIfObject(elements[i], `${ref.id}.${key}`)
     }
     obj.fields.set("length", elements.length)
-    return id
+    return ref
   }
 
+  // An empty map; entries are added with setEntry.
+  createMap(elements?: DeletePolicy): ObjectRef {
+    const ref = this.createObject("__map__")
+    if (elements) this.objects.get(ref.id)!.elements = elements
+    return ref
+  }
+
+  // weak references go to the weak table instead of the reverse graph
   private trackIncomingIfObject(value: any, parentKey: string) {
-    if (typeof value === "number" && this.objects.has(value)) {
-      const set = this.incoming.get(value) ?? new Set<string>()
+    const table = isWeak(value) ? this.weakRefs : this.incoming
+    const target = isWeak(value) ? value.target : value
+    if (isRef(target) && this.objects.has(target.id)) {
+      const set = table.get(target.id) ?? new Set<string>()
       set.add(parentKey)
-      this.incoming.set(value, set)
+      table.set(target.id, set)
     }
   }
 
   private untrackIncomingIfObject(value: any, parentKey: string) {
-    if (typeof value === "number" && this.objects.has(value)) {
-      const set = this.incoming.get(value)
+    const table = isWeak(value) ? this.weakRefs : this.incoming
+    const target = isWeak(value) ? value.target : value
+    if (isRef(target)) {
+      const set = table.get(target.id)
       if (set) {
         set.delete(parentKey)
-        if (set.size === 0) this.incoming.delete(value)
+        if (set.size === 0) table.delete(target.id)
       }
     }
   }
 
-  getObject(id: ObjectId) { return this.objects.get(id) }
+  liveObjects(): HeapObject[] { return [...this.objects.values()] }
+
+  typeSpecs(): TypeSpec[] { return [...this.types.values()] }
+
+  // Objects holding a reference to `ref`, with the field that holds it.
+  incomingOf(ref: ObjectRef): { parent: ObjectRef; field: string }[] {
+    const result: { parent: ObjectRef; field: string }[] = []
+    for (const parentKey of this.incoming.get(ref.id) ?? []) {
+      const [pid, field] = splitKey(parentKey)
+      const parent = this.objects.get(pid)
+      if (parent) result.push({ parent: parent.ref, field })
+    }
+    return result
+  }
+
+  isAlive(ref: ObjectRef) { return this.objects.has(ref.id) }
+
+  getObject(ref: ObjectRef) { return this.objects.get(ref.id) }
 
-  getField(id: ObjectId, name: string) { return this.objects.get(id)?.fields.get(name) }
+  getField(ref: ObjectRef, name: string) { return this.objects.get(ref.id)?.fields.get(name) }
 
-  setField(parentId: ObjectId, name: string, value: any, isMandatory: boolean) {
+  setField(parentRef: ObjectRef, name: string, value: any, isMandatory: boolean) {
+    const parentId = parentRef.id
     const parent = this.objects.get(parentId)
     if (!parent) return
     const key = `${parentId}.${name}`
-    const prev = parent.fields.get(name)
-    if (prev !== undefined) this.untrackIncomingIfObject(prev, key)
-
     if (value === null && isMandatory) {
       // cascade delete parent
-      this.deleteObjectCascade(parentId)
+      this.deleteObjectCascade(parentRef, { kind: "field", field: name })
       return
     }
 
+    const spec = this.fieldSpec(parent.typeName, name)
+    if (spec?.weak && isRef(value)) value = new WeakValue(value)
+    if (isWeak(value) && (isMandatory || spec?.owned)) throw new CascError("invalid-target", `Cannot store a weak reference in ${isMandatory ? "mandatory" : "owned"} field '${name}'`)
+    if (spec?.index === "unique") this.checkUnique(parent, name, value)
+    if (spec?.owned) this.claim(parent, value)
+    const prev = parent.fields.get(name)
+    if (prev !== undefined) this.untrackIncomingIfObject(prev, key)
     parent.fields.set(name, value)
     this.trackIncomingIfObject(value, key)
+    if (spec?.index) this.reindex(parent, name, prev, value)
+    this.release(parent, prev)
+    const slots = isRef(value) ? this.objects.get(value.id) : undefined
+    if (slots?.typeName !== "__array__" && slots?.typeName !== "__map__") return
+    if (spec?.elements) slots.elements = spec.elements
+    if (spec?.owned) slots.owns = true
+  }
+
+  // Makes `parent` the owner of `value` (and, for an array or map, the
+  // container the owner of its elements). Fails without changing anything if
+  // one of them already has another live owner.
+  private claim(parent: HeapObject, value: any) {
+    const child = isRef(value) ? this.objects.get(value.id) : undefined
+    if (!child) return
+    const values = child.typeName === "__array__" ? this.elementsOf(child) : child.typeName === "__map__" ? [...child.fields.values()] : []
+    const elements = values.map(v => isRef(v) ? this.objects.get(v.id) : undefined)
+    this.checkOwner(child, parent)
+    for (const element of elements) if (element) this.checkOwner(element, child)
+    child.owner = parent.id
+    for (const element of elements) if (element) element.owner = child.id
+  }
+
+  private checkOwner(child: HeapObject, owner: HeapObject) {
+    if (child.owner === undefined || child.owner === owner.id || !this.objects.has(child.owner)) return
+    const kind = this.objects.get(child.owner)!.typeName === "__array__" ? "array " : ""
+    throw new CascError("already-owned", `Object #${child.id} is already owned by ${kind}#${child.owner}`)
+  }
+
+  // Ends the ownership of `prev` by `parent` once `parent` no longer holds it
+  // in an owned slot.
+  private release(parent: HeapObject, prev: any) {
+    const child = isRef(prev) ? this.objects.get(prev.id) : undefined
+    if (!child || child.owner !== parent.id) return
+    for (const [k, v] of parent.fields) if (v === prev && this.ownsSlot(parent, k)) return
+    child.owner = undefined
+  }
+
+  private ownsSlot(parent: HeapObject, field: string): boolean {
+    if (parent.typeName === "__array__") return !!parent.owns && field !== "length"
+    if (parent.typeName === "__map__") return !!parent.owns
+    return !!this.fieldSpec(parent.typeName, field)?.owned
+  }
+
+  fieldSpec(typeName: string | undefined, field: string): FieldSpec | undefined {
+    return typeName ? this.types.get(typeName)?.fields.find(f => f.name === field) : undefined
+  }
+
+  private elementsOf(array: HeapObject): any[] {
+    const len = Number(array.fields.get("length") ?? 0)
+    return Array.from({ length: len }, (_, i) => array.fields.get(String(i)))
   }
 
-  arrayPush(id: ObjectId, value: any) {
-    const obj = this.objects.get(id)
+  // Removes a field that was never set before, e.g. to undo its first write.
+  unsetField(ref: ObjectRef, name: string) {
+    const obj = this.objects.get(ref.id)
+    const prev = obj?.fields.get(name)
+    if (!obj || prev === undefined) return
+    this.untrackIncomingIfObject(prev, `${ref.id}.${name}`)
+    obj.fields.delete(name)
+    if (this.fieldSpec(obj.typeName, name)?.index) this.reindex(obj, name, prev, undefined)
+    this.release(obj, prev)
+  }
+
+  // Stores `value` at `index` of an array. Storing null into a cascade or
+  // compact slot counts as deleting the element.
+  setElement(ref: ObjectRef, index: number, value: any) {
+    const obj = this.objects.get(ref.id)
+    if (!obj || obj.typeName !== "__array__") return
+    const key = String(index)
+    const len = Number(obj.fields.get("length") ?? 0)
+    if (value === null && obj.elements === "cascade") {
+      this.deleteObjectCascade(ref, { kind: "field", field: key })
+      return
+    }
+    if (value === null && obj.elements === "compact") {
+      if (index >= len) return
+      const removed = obj.fields.get(key)
+      this.compact(obj, (_, i) => i === index)
+      this.release(obj, removed)
+      return
+    }
+    if (obj.owns) this.claim(obj, value)
+    const prev = obj.fields.get(key)
+    this.untrackIncomingIfObject(prev, `${ref.id}.${key}`)
+    obj.fields.set(key, value)
+    this.trackIncomingIfObject(value, `${ref.id}.${key}`)
+    this.release(obj, prev)
+    if (index >= len) {
+      for (let i = len; i < index; i++) obj.fields.set(String(i), null)
+      obj.fields.set("length", index + 1)
+    }
+  }
+
+  // Stores `value` under `key` of a map. Like array slots, storing null into
+  // a cascade or compact entry counts as deleting the element.
+  setEntry(ref: ObjectRef, key: string, value: any) {
+    const obj = this.objects.get(ref.id)
+    if (!obj || obj.typeName !== "__map__") return
+    if (value === null && obj.elements === "cascade") {
+      this.deleteObjectCascade(ref, { kind: "field", field: key })
+      return
+    }
+    if (value === null && obj.elements === "compact") {
+      this.removeEntry(ref, key)
+      return
+    }
+    if (obj.owns) this.claim(obj, value)
+    const prev = obj.fields.get(key)
+    if (prev !== undefined) this.untrackIncomingIfObject(prev, `${ref.id}.${key}`)
+    obj.fields.set(key, value)
+    this.trackIncomingIfObject(value, `${ref.id}.${key}`)
+    this.release(obj, prev)
+  }
+
+  // Removes `key` from a map; false if the map has no such entry.
+  removeEntry(ref: ObjectRef, key: string): boolean {
+    const obj = this.objects.get(ref.id)
+    if (!obj || obj.typeName !== "__map__" || !obj.fields.has(key)) return false
+    const prev = obj.fields.get(key)
+    this.untrackIncomingIfObject(prev, `${ref.id}.${key}`)
+    obj.fields.delete(key)
+    this.release(obj, prev)
+    return true
+  }
+
+  // Removes the elements matching `drop` and renumbers the rest; maps just
+  // lose the matching entries.
+  private compact(obj: HeapObject, drop: (value: any, index: number) => boolean) {
+    if (obj.typeName === "__map__") {
+      for (const [key, value] of [...obj.fields]) if (drop(value, -1)) this.removeEntry(obj.ref, key)
+      return
+    }
+    const len = Number(obj.fields.get("length") ?? 0)
+    const kept: any[] = []
+    for (let i = 0; i < len; i++) {
+      const value = obj.fields.get(String(i))
+      this.untrackIncomingIfObject(value, `${obj.id}.${i}`)
+      obj.fields.delete(String(i))
+      if (!drop(value, i)) kept.push(value)
+    }
+    kept.forEach((value, i) => {
+      obj.fields.set(String(i), value)
+      this.trackIncomingIfObject(value, `${obj.id}.${i}`)
+    })
+    obj.fields.set("length", kept.length)
+  }
+
+  arrayPush(ref: ObjectRef, value: any) {
+    const obj = this.objects.get(ref.id)
     if (!obj || obj.typeName !== "__array__") return
     const len = Number(obj.fields.get("length") ?? 0)
     const key = String(len)
     obj.fields.set(key, value)
     obj.fields.set("length", len + 1)
-    this.trackIncomingIfObject(value, `${id}.${key}`)
-  }
-
-  deleteObjectCascade(id: ObjectId) {
-    const toDelete: ObjectId[] = [id]
-    const visited = new Set<ObjectId>()
-    while (toDelete.length) {
-      const cur = toDelete.pop()!
-      if (visited.has(cur)) continue
-      visited.add(cur)
-      const obj = this.objects.get(cur)
-      if (!obj) continue
-      // enqueue parents that mandatorily rely on this field
-      const incoming = this.incoming.get(cur)
-      if (incoming) {
-        for (const parentKey of incoming) {
-          const [pidStr, fieldName] = parentKey.split(".")
-          const pid = Number(pidStr)
-          const parent = this.objects.get(pid)
-          if (!parent) continue
-          // set field to null first (break link)
+    this.trackIncomingIfObject(value, `${ref.id}.${key}`)
+  }
+
+  // The objects (`ref` included) that deleting `ref` would remove, in deletion
+  // order, without changing anything. Restrict policies are not checked.
+  planCascade(ref: ObjectRef): ObjectRef[] {
+    return this.plan(ref, { kind: "field", field: "" }).map(p => p.obj.ref)
+  }
+
+  // Breadth first: `ref`, then every object that refers to a planned one
+  // through a cascade field or slot and every object a planned one owns, each
+  // with the cause of its deletion. Upward and downward steps share one
+  // visited set, so every object is planned once.
+  private plan(ref: ObjectRef, cause: DeletionCause): { obj: HeapObject; cause: DeletionCause }[] {
+    const root = this.objects.get(ref.id)
+    if (!root) return []
+    const planned = [{ obj: root, cause }]
+    const visited = new Set<ObjectId>([root.id])
+    for (let i = 0; i < planned.length; i++) {
+      const obj = planned[i].obj
+      for (const parentKey of this.incoming.get(obj.id) ?? []) {
+        const [pid, fieldName] = splitKey(parentKey)
+        const parent = this.objects.get(pid)
+        if (!parent || visited.has(pid) || this.policyOf(parent, fieldName) !== "cascade") continue
+        visited.add(pid)
+        planned.push({ obj: parent, cause: { kind: "ref", field: fieldName, child: obj.ref } })
+      }
+      for (const [field, value] of obj.fields) {
+        const child = isRef(value) ? this.objects.get(value.id) : undefined
+        if (!child || child.owner !== obj.id || visited.has(child.id) || !this.ownsSlot(obj, field)) continue
+        visited.add(child.id)
+        planned.push({ obj: child, cause: { kind: "owner", field, owner: obj.ref } })
+      }
+    }
+    return planned
+  }
+
+  // Deletes `ref` and, breadth first, every object that refers to a deleted
+  // one through a cascade field. Returns the removed objects in deletion
+  // order. The whole cascade is planned first: if a surviving object still
+  // references a doomed one through a restrict field, nothing is deleted and a
+  // `restrict` error is thrown.
+  deleteObjectCascade(ref: ObjectRef, cause: DeletionCause): Deletion[] {
+    const planned = this.plan(ref, cause)
+    const doomed = new Set(planned.map(p => p.obj.id))
+    for (const { obj } of planned) {
+      for (const parentKey of this.incoming.get(obj.id) ?? []) {
+        const [pid, fieldName] = splitKey(parentKey)
+        const parent = this.objects.get(pid)
+        if (!parent || doomed.has(pid) || this.policyOf(parent, fieldName) !== "restrict") continue
+        const holder = parent.typeName === "__array__" ? `element ${fieldName} of array #${pid}`
+          : parent.typeName === "__map__" ? `entry ${JSON.stringify(fieldName)} of map #${pid}` : `#${pid}.${fieldName}`
+        throw new CascError("restrict", `Cannot delete #${obj.id}: it is referenced by ${holder}, which restricts deletion`)
+      }
+    }
+    const deletions: Deletion[] = []
+    // compacting arrays that lost elements, done once the cascade is over
+    const compacting = new Set<HeapObject>()
+    for (const { obj, cause: curCause } of planned) {
+      const cur = obj.id
+      // break the links of surviving parents; doomed parents keep the
+      // reference so their last field values can still be inspected
+      for (const parentKey of this.incoming.get(cur) ?? []) {
+        const [pid, fieldName] = splitKey(parentKey)
+        const parent = this.objects.get(pid)
+        if (!parent || doomed.has(pid)) continue
+        if (this.policyOf(parent, fieldName) === "compact") compacting.add(parent)
+        else {
           const prev = parent.fields.get(fieldName)
           parent.fields.set(fieldName, null)
-          this.untrackIncomingIfObject(prev, parentKey)
-          // if the field is mandatory for parent's type, delete parent too
-          const isMandatory = this.isFieldMandatory(parent.typeName, fieldName)
-          if (isMandatory) toDelete.push(pid)
+          if (this.fieldSpec(parent.typeName, fieldName)?.index) this.reindex(parent, fieldName, prev, null)
         }
       }
-      // clear outgoing references and untrack
-      for (const [k, v] of obj.fields) this.untrackIncomingIfObject(v, `${cur}.${k}`)
-      this.incoming.delete(cur)
-      this.objects.delete(cur)
+      // clear outgoing references, untrack and drop from the indexes
+      this.remove(obj)
+      deletions.push({ ref: obj.ref, typeName: obj.typeName, cause: curCause, fields: obj.fields })
     }
+    for (const array of compacting) {
+      if (this.objects.has(array.id)) this.compact(array, value => isRef(value) && value.deleted)
+    }
+    if (!deletions.length) return deletions
+    if (this.traceCascades) this.lastCascade = traceCascade(deletions)
+    this.onDelete?.(deletions)
+    return deletions
+  }
+
+  get liveCount() { return this.objects.size }
+
+  // True once enough objects were allocated since the last collection.
+  // A threshold of 0 disables automatic collection.
+  shouldCollect() { return this.gcThreshold > 0 && this.allocationsSinceGc >= this.gcThreshold }
+
+  // Tracing collection: mark everything reachable from `roots` through object
+  // fields, then free the rest. Unreachable objects can only be referenced by
+  // other unreachable objects, so freeing them never triggers a cascade.
+  collect(roots: Iterable<ObjectRef>): GcStats {
+    const marked = new Set<ObjectId>()
+    const stack: ObjectId[] = []
+    for (const ref of roots) if (this.objects.has(ref.id)) stack.push(ref.id)
+    while (stack.length) {
+      const cur = stack.pop()!
+      if (marked.has(cur)) continue
+      marked.add(cur)
+      for (const v of this.objects.get(cur)!.fields.values()) {
+        if (isRef(v) && this.objects.has(v.id) && !marked.has(v.id)) stack.push(v.id)
+      }
+    }
+    let freed = 0
+    for (const [id, obj] of this.objects) {
+      if (marked.has(id)) continue
+      this.remove(obj)
+      freed++
+    }
+    this.allocationsSinceGc = 0
+    return { freed, live: this.objects.size }
+  }
+
+  // Copies the object graph so that `restore` can undo later changes. Object
+  // ids are never reused, so references to objects created after the snapshot
+  // read as deleted once it is restored.
+  snapshot(): HeapSnapshot {
+    const objects = new Map<ObjectId, HeapObject>()
+    for (const [id, obj] of this.objects) objects.set(id, { ...obj, fields: new Map(obj.fields) })
+    const incoming = new Map<ObjectId, Set<string>>()
+    for (const [id, keys] of this.incoming) incoming.set(id, new Set(keys))
+    return { objects, incoming }
+  }
+
+  // Puts the heap back as it was when `snapshot` was taken. Objects created
+  // since then that are reachable from `keep` survive with their current
+  // fields: a weak reference to an object that is gone reads as null, and
+  // ownership of objects the snapshot has is dropped. Fails with `unique`,
+  // keeping none of them, if one would clash with a restored object.
+  restore(snapshot: HeapSnapshot, keep: any[] = []) {
+    const kept: HeapObject[] = []
+    const pending = keep.filter(isRef)
+    const seen = new Set<ObjectId>()
+    while (pending.length) {
+      const obj = this.objects.get(pending.pop()!.id)
+      if (!obj || seen.has(obj.id) || snapshot.objects.has(obj.id)) continue
+      seen.add(obj.id)
+      kept.push({ ...obj, fields: new Map(obj.fields) })
+      for (const v of obj.fields.values()) if (isRef(v)) pending.push(v)
+    }
+    for (const obj of this.objects.values()) obj.ref.deleted = true
+    this.objects.clear()
+    for (const [id, obj] of snapshot.objects) {
+      this.objects.set(id, { ...obj, fields: new Map(obj.fields) })
+      obj.ref.deleted = false
+    }
+    this.incoming.clear()
+    for (const [id, keys] of snapshot.incoming) this.incoming.set(id, new Set(keys))
+    this.rebuildTables()
+    if (!kept.length) return
+    for (const obj of kept) {
+      for (const f of this.types.get(obj.typeName!)?.fields ?? []) if (f.index === "unique") this.checkUnique(obj, f.name, obj.fields.get(f.name))
+    }
+    for (const obj of kept) {
+      if (obj.owner !== undefined && !seen.has(obj.owner)) obj.owner = undefined
+      for (const [k, v] of obj.fields) if (isWeak(v) && !this.objects.has(v.target.id) && !seen.has(v.target.id)) obj.fields.set(k, null)
+      this.objects.set(obj.id, obj)
+      obj.ref.deleted = false
+    }
+    for (const obj of kept) for (const [k, v] of obj.fields) if (!isWeak(v)) this.trackIncomingIfObject(v, `${obj.id}.${k}`)
+    this.rebuildTables()
+  }
+
+  get nextObjectId(): ObjectId { return this.nextId }
+
+  // Fills an empty heap with objects read back from a saved snapshot (see
+  // snapshot.ts), rebuilds the reverse graph from their fields and verifies
+  // the result. A snapshot that breaks an invariant leaves the heap empty.
+  load(nextId: ObjectId, types: TypeSpec[], objects: HeapObject[]) {
+    if (this.objects.size) throw new CascError("snapshot-error", "Cannot load a snapshot into a non-empty heap")
+    for (const obj of objects) {
+      if (obj.id >= nextId) throw new CascError("snapshot-error", `Invalid snapshot: object #${obj.id} has an id past the next free id ${nextId}`)
+      const known = !obj.typeName || obj.typeName === "__array__" || obj.typeName === "__map__" || this.types.has(obj.typeName) || types.some(t => t.name === obj.typeName)
+      if (!known) throw new CascError("snapshot-error", `Invalid snapshot: object #${obj.id} has unknown type '${obj.typeName}'`)
+    }
+    const prevTypes = new Map(this.types)
+    for (const t of types) this.types.set(t.name, t)
+    for (const obj of objects) this.objects.set(obj.id, obj)
+    for (const obj of objects) for (const [k, v] of obj.fields) this.trackIncomingIfObject(v, `${obj.id}.${k}`)
+    this.rebuildTables()
+    const violations = this.verify(true)
+    if (violations.length) {
+      this.types = prevTypes
+      this.objects.clear()
+      this.incoming.clear()
+      this.rebuildTables()
+      throw new CascError("snapshot-error", `Invalid snapshot: ${violations[0].message}`)
+    }
+    this.nextId = Math.max(this.nextId, nextId)
+  }
+
+  // Checks the invariants the rest of the heap relies on and returns every
+  // violation found, so an empty list means the heap is consistent. With
+  // `allowUnset`, mandatory fields left out of `new` pass: a program can
+  // build such objects, and its own snapshots must load.
+  verify(allowUnset = false): HeapViolation[] {
+    const violations: HeapViolation[] = []
+    const report = (obj: { id: ObjectId }, kind: HeapViolation["kind"], message: string) => violations.push({ objectId: obj.id, kind, message })
+    for (const obj of this.objects.values()) {
+      if (obj.ref.deleted) report(obj, "deleted-ref", `#${obj.id} is live but its references read as deleted`)
+      for (const [k, v] of obj.fields) {
+        if (isWeak(v) && !this.objects.has(v.target.id)) report(obj, "weak", `#${obj.id}.${k} is a weak reference to #${v.target.id}, which is gone, but was not cleared`)
+        else if (isWeak(v) && !this.weakRefs.get(v.target.id)?.has(`${obj.id}.${k}`)) report(obj, "weak", `#${obj.id}.${k} is a weak reference to #${v.target.id} missing from the weak table`)
+        if (!isRef(v)) continue
+        // references to deleted objects are allowed (e.g. in delete reasons)
+        if (!v.deleted && !this.objects.has(v.id)) report(obj, "dangling-ref", `#${obj.id}.${k} refers to #${v.id}, which is not on the heap`)
+        else if (this.objects.has(v.id) && !this.incoming.get(v.id)?.has(`${obj.id}.${k}`)) report(obj, "missing-incoming", `#${obj.id}.${k} refers to #${v.id} but #${v.id} has no incoming entry for it`)
+      }
+      const spec = obj.typeName ? this.types.get(obj.typeName) : undefined
+      // a mandatory(nullify) field is nulled when its target is deleted; one
+      // left out of `new` counts as null
+      for (const f of spec?.fields ?? []) {
+        const value = obj.fields.get(f.name)
+        if (!f.optional && (value === null || (value === undefined && !allowUnset)) && this.policyOf(obj, f.name) !== "nullify") report(obj, "mandatory-null", `#${obj.id} is live with ${value === undefined ? "no value" : "null"} in mandatory field '${f.name}'`)
+      }
+      if (obj.typeName === "__array__") {
+        const len = obj.fields.get("length")
+        if (!Number.isInteger(len) || len < 0) report(obj, "array-shape", `array #${obj.id} has no valid length`)
+        for (const k of obj.fields.keys()) {
+          const i = Number(k)
+          if (k !== "length" && !(Number.isInteger(i) && i >= 0 && i < len)) report(obj, "array-shape", `array #${obj.id} has element '${k}' outside its length ${len}`)
+        }
+      }
+      for (const f of spec?.fields ?? []) {
+        const value = obj.fields.get(f.name)
+        if (f.index && value !== undefined && value !== null && !this.indexes.get(obj.typeName!)?.get(f.name)?.get(value)?.has(obj.id)) report(obj, "index", `#${obj.id}.${f.name} is missing from the index of ${obj.typeName}.${f.name}`)
+      }
+      if (spec && !this.instances.get(spec.name)?.has(obj.id)) report(obj, "index", `#${obj.id} is missing from the instances of ${spec.name}`)
+      if (obj.owner !== undefined && this.objects.has(obj.owner)) {
+        const owner = this.objects.get(obj.owner)!
+        const held = [...owner.fields].some(([k, v]) => v === obj.ref && this.ownsSlot(owner, k))
+        if (!held) report(obj, "owner", `#${obj.id} is owned by #${obj.owner}, which does not hold it in an owned slot`)
+      }
+    }
+    for (const [typeName, fields] of this.indexes) {
+      for (const [field, index] of fields) {
+        for (const [value, ids] of index) {
+          for (const id of ids) if (this.objects.get(id)?.fields.get(field) !== value) report({ id }, "index", `index of ${typeName}.${field} lists #${id}, which does not hold that value`)
+          if (ids.size > 1 && this.fieldSpec(typeName, field)?.index === "unique") report({ id: Math.min(...ids) }, "unique", `unique field ${typeName}.${field} has the same value in ${[...ids].map(id => `#${id}`).join(", ")}`)
+        }
+      }
+    }
+    for (const [id, keys] of this.weakRefs) {
+      for (const key of keys) {
+        const [hid, field] = splitKey(key)
+        const value = this.objects.get(hid)?.fields.get(field)
+        if (!isWeak(value) || value.target.id !== id || !this.objects.has(id)) report({ id }, "weak", `weak table entry ${key} of #${id} does not match a weak reference to a live object`)
+      }
+    }
+    for (const [typeName, ids] of this.instances) {
+      for (const id of ids) if (this.objects.get(id)?.typeName !== typeName) report({ id }, "index", `instances of ${typeName} list #${id}, which is not a live ${typeName}`)
+    }
+    for (const [id, keys] of this.incoming) {
+      if (!this.objects.has(id)) report({ id }, "dead-incoming", `dead object #${id} still has incoming entries ${[...keys].join(", ")}`)
+      for (const key of keys) {
+        const [pid, field] = splitKey(key)
+        const value = this.objects.get(pid)?.fields.get(field)
+        if (!isRef(value) || value.id !== id) report({ id }, "stale-incoming", `incoming entry ${key} of #${id} does not match the field, which holds ${isRef(value) ? `#${value.id}` : String(value)}`)
+      }
+    }
+    return violations
+  }
+
+  // What deleting the object held in `parent.field` does to `parent`.
+  policyOf(parent: HeapObject, field: string): DeletePolicy {
+    if (parent.typeName === "__array__") return field === "length" ? "nullify" : parent.elements ?? "nullify"
+    if (parent.typeName === "__map__") return parent.elements ?? "nullify"
+    const spec = parent.typeName ? this.types.get(parent.typeName)?.fields.find(f => f.name === field) : undefined
+    if (!spec) return "nullify"
+    // `compact` only applies to array slots
+    if (spec.policy === "compact") return "nullify"
+    return spec.policy ?? (spec.optional ? "nullify" : "cascade")
   }
 
   isFieldMandatory(typeName: string | undefined, fieldName: string): boolean {
@@ -143,4 +817,3 @@ export class Heap {
     return !field.optional
   }
 }
-
@@ -1,19 +1,10 @@
-import { Program, Statement, LetStmt, AssignStmt, PrintStmt, Expression, NumberLit, StringLit, BoolLit, IdentExpr, AccessExpr, ObjectLit, StructStmt, BlockStmt, IfStmt, WhileStmt, FnDeclStmt, ReturnStmt, ExprStmt, ArrayLit, IndexExpr, CallExpr, UnaryExpr, BinaryExpr, IdentTarget, LValue } from "../core/ast.js"
-import { Heap } from "./heap.js"
-
-interface EnvEntry { kind: "value"; value: any }
-
-class Environment {
-  private values = new Map<string, EnvEntry>()
-  constructor(public readonly parent?: Environment) {}
-  get(name: string): EnvEntry | undefined { return this.values.get(name) ?? this.parent?.get(name) }
-  setLocal(name: string, value: any) { this.values.set(name, { kind: "value", value }) }
-  set(name: string, value: any): boolean {
-    if (this.values.has(name)) { this.values.set(name, { kind: "value", value }); return true }
-    if (this.parent) return this.parent.set(name, value)
-    this.values.set(name, { kind: "value", value }); return true
-  }
-}
+import { Program, Statement, LetStmt, AssignStmt, PrintStmt, Expression, NumberLit, StringLit, BoolLit, IdentExpr, AccessExpr, ObjectLit, StructStmt, BlockStmt, IfStmt, WhileStmt, ForStmt, ForInStmt, TryStmt, FnDeclStmt, ExprStmt, ArrayLit, MapLit, IndexExpr, CallExpr, FnExpr, TemplateExpr, UnaryExpr, BinaryExpr, IdentTarget, LValue, Span, ImportStmt, AtomicStmt, DeleteStmt, Invariant } from "../core/ast.js"
+import { CascError, ErrorCode } from "../core/errors.js"
+import { CascadeTrace, Deletion, GcStats, Heap, HeapObject, ObjectId, ObjectRef, WeakValue, isRef, isWeak } from "./heap.js"
+import { Environment } from "./environment.js"
+import { dumpHeap } from "./dump.js"
+import { loadSnapshot, saveSnapshot } from "./snapshot.js"
+import { ModuleLoader, ModuleRecord, SourceReader } from "./modules.js"
 
 interface FunctionValue {
   kind: "function"
@@ -21,43 +12,315 @@ interface FunctionValue {
   params: string[]
   body: BlockStmt
   env: Environment
+  file?: string
+}
+
+// A struct declaration bound as a value; `name` is the heap type name, which
+// is qualified by the declaring module's namespace.
+interface StructValue {
+  kind: "struct"
+  name: string
+  displayName: string
+}
+
+export interface InterpreterOptions {
+  // allocations between automatic collections; 0 disables automatic GC
+  gcThreshold?: number
+  // reads the source of imported modules (defaults to the file system)
+  readModule?: SourceReader
+  // called with every imported module before it runs, e.g. to type-check it
+  onModuleLoad?: (program: Program, src: string) => void
+  // called with the trace of every cascade, e.g. to print it
+  onCascade?: (trace: CascadeTrace) => void
+  // run Heap.verify() after every statement and fail on the first violation
+  verifyHeap?: boolean
+}
+
+// computed fields and invariants of a struct, evaluated in the environment
+// the struct was declared in
+interface StructRules {
+  displayName: string
+  env: Environment
+  computed: Map<string, Expression>
+  invariants: Invariant[]
+}
+
+// thrown by `abort` and caught by the innermost enclosing atomic block
+class Abort {}
+
+// a value thrown by `throw`; `catch` receives the value itself
+class Thrown extends CascError {
+  constructor(readonly value: any, description: string) {
+    super("thrown", `Uncaught ${description}`)
+  }
 }
 
+// frames of a stack trace beyond this many are summarized
+const MAX_TRACE = 50
+
+// How a statement finished. `break` and `continue` travel up to the loop
+// they name (or the innermost one), `return` to the enclosing call; the
+// value of a normal completion is that of an expression statement.
+type Completion =
+  | { kind: "normal"; value?: any }
+  | { kind: "return"; value: any }
+  | { kind: "break" | "continue"; label?: string }
+
+const NORMAL: Completion = { kind: "normal" }
+
 export class Interpreter {
-  private heap = new Heap()
+  readonly heap: Heap
   private globals = new Environment()
   private env = this.globals
+  private file?: string
+  private modules: ModuleLoader
+  private module!: ModuleRecord
+  private entry?: ModuleRecord
+  // variables read from a snapshot, bound once the entry module starts
+  private restored?: Map<string, any>
+  // environments suspended by the blocks and calls currently executing
+  private envStack: Environment[] = []
+  // active calls, outermost first, with the file and location of their call site
+  private calls: { name: string; file?: string; span?: Span }[] = []
+  // intermediate values held by expressions that are still being evaluated
+  private temps: any[] = []
+  // heap type name -> `on delete` handler of the struct
+  private deleteHandlers = new Map<string, FunctionValue>()
+  // heap type name -> methods declared with `fn Struct.name(self, ...)`
+  private methods = new Map<string, Map<string, FunctionValue>>()
+  // call site of the builtin being executed, for the functions it calls back
+  private nativeCallSite?: Span
+  // heap type name -> computed fields and invariants of the struct
+  private structRules = new Map<string, StructRules>()
+  // objects removed by cascades whose handlers have not run yet, in order
+  private pendingDeletions: Deletion[] = []
+  private dispatching = false
+  // last field values of deleted objects, readable while their handler runs
+  private tombstones = new Map<ObjectId, Map<string, any>>()
+  // number of atomic blocks being executed
+  private atomicDepth = 0
+  private wouldCascade = (target: any, field?: string) => this.cascadePreview(target, field)
+  private verifyHeap: boolean
 
-  run(program: Program) {
+  constructor(options: InterpreterOptions = {}) {
+    this.verifyHeap = options.verifyHeap ?? false
+    this.heap = new Heap({
+      gcThreshold: options.gcThreshold,
+      traceCascades: true,
+      onDelete: deletions => {
+        this.pendingDeletions.push(...deletions)
+        options.onCascade?.(this.heap.lastCascade!)
+      },
+    })
+    this.modules = new ModuleLoader(this.globals, options.readModule, options.onModuleLoad)
     this.installStdlib()
+  }
+
+  run(program: Program) {
+    const record = this.enterModule(program.file)
     for (const stmt of program.statements) this.execStatement(stmt)
+    this.modules.finish(record)
+  }
+
+  // Runs statements in the persistent top-level environment, as a REPL does,
+  // and returns the value of the last statement if it is an expression.
+  evaluate(program: Program): any {
+    if (!this.module) this.enterModule(program.file)
+    this.file = program.file
+    let last: any
+    for (const stmt of program.statements) {
+      const c = this.execStatement(stmt)
+      last = stmt.kind === "ExprStmt" && c.kind === "normal" ? c.value : undefined
+    }
+    return last
+  }
+
+  private enterModule(file: string | undefined): ModuleRecord {
+    const record = this.modules.enter(file)
+    for (const [name, value] of this.restored ?? []) record.env.setLocal(name, value)
+    this.restored = undefined
+    this.entry = this.module = record
+    this.env = record.env
+    this.file = file
+    return record
+  }
+
+  private fail(code: ErrorCode, message: string, span?: Span): never {
+    throw new CascError(code, message, span, this.file)
   }
 
-  private execStatement(stmt: Statement): any {
-    if (stmt.kind === "StructStmt") return this.execStruct(stmt as StructStmt)
-    if (stmt.kind === "LetStmt") return this.execLet(stmt as LetStmt)
-    if (stmt.kind === "AssignStmt") return this.execAssign(stmt as AssignStmt)
-    if (stmt.kind === "PrintStmt") return this.execPrint(stmt as PrintStmt)
-    if (stmt.kind === "BlockStmt") return this.execBlock(stmt as BlockStmt)
-    if (stmt.kind === "IfStmt") return this.execIf(stmt as IfStmt)
-    if (stmt.kind === "WhileStmt") return this.execWhile(stmt as WhileStmt)
-    if (stmt.kind === "FnDeclStmt") return this.execFnDecl(stmt as FnDeclStmt)
-    if (stmt.kind === "ReturnStmt") return this.execReturn(stmt as ReturnStmt)
-    if (stmt.kind === "ExprStmt") return this.evalExpr((stmt as ExprStmt).expr)
+  // Delete handlers run once the statement that caused the cascade has
+  // finished. Cascades caused by handlers are queued behind the current ones,
+  // so handlers fire in a single FIFO order. A statement that fails after a
+  // cascade keeps its deletions, so their handlers run before the error
+  // propagates; an error raised by a handler replaces it.
+  private execStatement(stmt: Statement): Completion {
+    if (this.heap.shouldCollect()) this.collectGarbage()
+    let result: Completion
+    try {
+      result = this.execNode(stmt)
+    } catch (e) {
+      // heap errors (e.g. restrict) carry no location of their own
+      if (e instanceof CascError) {
+        e.locate(stmt.span, this.file)
+        e.trace ??= this.stackTrace(e.span)
+      }
+      this.runPendingHandlers(stmt.span, e instanceof Thrown ? e.value : undefined)
+      throw e
+    }
+    this.runPendingHandlers(stmt.span, result.kind === "normal" || result.kind === "return" ? result.value : undefined)
+    if (this.verifyHeap) {
+      const violations = this.heap.verify()
+      if (violations.length) this.fail("heap-invariant", `Heap invariants violated after this statement:\n${violations.map(v => `  ${v.message}`).join("\n")}`, stmt.span)
+    }
+    return result
+  }
+
+  private execNode(stmt: Statement): Completion {
+    switch (stmt.kind) {
+      case "BlockStmt": return this.execBlock(stmt)
+      case "IfStmt": return this.execIf(stmt)
+      case "WhileStmt": return this.execWhile(stmt)
+      case "ForStmt": return this.execFor(stmt)
+      case "ForInStmt": return this.execForIn(stmt)
+      case "BreakStmt": return { kind: "break", label: stmt.label }
+      case "ContinueStmt": return { kind: "continue", label: stmt.label }
+      case "ReturnStmt": return { kind: "return", value: stmt.value ? this.evalExpr(stmt.value) : null }
+      case "AtomicStmt": return this.execAtomic(stmt)
+      case "TryStmt": return this.execTry(stmt)
+      case "ThrowStmt": {
+        const value = this.evalExpr(stmt.value)
+        const message = isRef(value) && !value.deleted ? this.heap.getField(value, "message") : undefined
+        throw new Thrown(value, typeof message === "string" ? `error: ${message}` : this.formatValue(value))
+      }
+      case "ExprStmt": return { kind: "normal", value: this.evalExpr(stmt.expr) }
+      case "StructStmt": this.execStruct(stmt); break
+      case "LetStmt": this.execLet(stmt); break
+      case "AssignStmt": this.execAssign(stmt); break
+      case "PrintStmt": this.execPrint(stmt); break
+      case "FnDeclStmt": this.execFnDecl(stmt); break
+      case "ImportStmt": this.execImport(stmt); break
+      case "DeleteStmt": this.execDelete(stmt); break
+      case "AbortStmt":
+        if (!this.atomicDepth) this.fail("invalid-abort", "abort outside of an atomic block", stmt.span)
+        throw new Abort()
+    }
+    return NORMAL
   }
 
   private execStruct(stmt: StructStmt) {
-    this.heap.defineType({ name: stmt.name, fields: stmt.fields.map(f => ({ name: f.name, optional: f.optional })) })
+    const name = this.module.namespace + stmt.name
+    const fields = stmt.fields.map(f => ({
+      name: f.name,
+      optional: f.optional,
+      policy: f.policy,
+      owned: f.owned,
+      index: f.index,
+      weak: f.weak,
+      // `compact xs` is shorthand for a `[T]!(compact)` slot policy
+      elements: f.policy === "compact" ? f.policy : f.type?.kind === "ArrayType" || f.type?.kind === "MapType" ? f.type.elements : undefined,
+    }))
+    this.heap.defineType({ name, fields })
+    const value: StructValue = { kind: "struct", name, displayName: stmt.name }
+    this.env.setLocal(stmt.name, value)
+    if (stmt.exported) this.module.exports.add(stmt.name)
+    if (stmt.computed || stmt.invariants) {
+      const computed = new Map((stmt.computed ?? []).map(c => [c.name, c.expr]))
+      this.structRules.set(name, { displayName: stmt.name, env: this.env, computed, invariants: stmt.invariants ?? [] })
+    } else {
+      this.structRules.delete(name)
+    }
+    if (stmt.onDelete) {
+      const { params, body } = stmt.onDelete
+      this.deleteHandlers.set(name, { kind: "function", name: `${stmt.name}.on delete`, params: params.map(p => p.name), body, env: this.env, file: this.file })
+    }
+  }
+
+  // The handlers may collect; `value`, what the statement produced or threw
+  // (e.g. the value being returned), must survive them.
+  private runPendingHandlers(span: Span, value: any) {
+    if (!this.pendingDeletions.length || this.dispatching) return
+    const mark = this.temps.length
+    this.pin(value)
+    try {
+      this.dispatchDeleteHandlers(span)
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  // Handlers receive the deleted object and a reason. `self` cannot be
+  // modified or stored anywhere (deleted objects are never resurrected) but its
+  // last field values can be read for the duration of the handler.
+  private dispatchDeleteHandlers(span: Span) {
+    this.dispatching = true
+    try {
+      while (this.pendingDeletions.length) {
+        const deletion = this.pendingDeletions.shift()!
+        const handler = deletion.typeName ? this.deleteHandlers.get(deletion.typeName) : undefined
+        if (!handler) continue
+        this.tombstones.set(deletion.ref.id, deletion.fields)
+        try {
+          this.callFunction(handler, [deletion.ref, this.reasonValue(deletion)], span)
+        } finally {
+          this.tombstones.delete(deletion.ref.id)
+        }
+      }
+    } catch (e) {
+      this.pendingDeletions = []
+      throw e
+    } finally {
+      this.dispatching = false
+    }
+  }
+
+  private reasonValue(deletion: Deletion): ObjectRef {
+    const cause = deletion.cause
+    if (cause.kind === "ref") return this.heap.createObject(undefined, { cause: "ref", field: cause.field, child: cause.child })
+    if (cause.kind === "owner") return this.heap.createObject(undefined, { cause: "owner", field: cause.field, owner: cause.owner })
+    return this.heap.createObject(undefined, { cause: cause.kind, field: cause.field ?? null })
   }
 
   private execLet(stmt: LetStmt) {
     const value = stmt.value ? this.evalExpr(stmt.value) : null
     this.env.setLocal(stmt.name, value)
+    if (stmt.exported) this.module.exports.add(stmt.name)
+  }
+
+  // Imported bindings are copies of the exported values taken once the module
+  // has finished running; struct types keep their module-qualified name.
+  private execImport(stmt: ImportStmt) {
+    const record = this.modules.load(stmt.source, this.file, stmt.span, (program, rec) => this.runModule(program, rec))
+    for (const { name, span } of stmt.names) {
+      if (!record.exports.has(name)) this.fail("import-error", `Module '${stmt.source}' has no export '${name}'`, span)
+      this.env.setLocal(name, record.env.get(name)!.value)
+    }
+  }
+
+  private runModule(program: Program, record: ModuleRecord) {
+    const prev = { env: this.env, file: this.file, module: this.module }
+    this.envStack.push(prev.env)
+    this.env = record.env
+    this.file = program.file
+    this.module = record
+    try {
+      for (const stmt of program.statements) this.execStatement(stmt)
+    } finally {
+      this.env = prev.env
+      this.file = prev.file
+      this.module = prev.module
+      this.envStack.pop()
+    }
   }
 
   private execAssign(stmt: AssignStmt) {
-    const value = stmt.value ? this.evalExpr(stmt.value) : null
-    this.assignTo(stmt.target, value)
+    const mark = this.temps.length
+    try {
+      const value = this.pin(stmt.value ? this.evalExpr(stmt.value) : null)
+      this.assignTo(stmt.target, value)
+    } finally {
+      this.temps.length = mark
+    }
   }
 
   private assignTo(target: LValue, value: any) {
@@ -69,27 +332,56 @@ export class Interpreter {
     if ((target as AccessExpr).kind === "AccessExpr") {
       const t = target as AccessExpr
       const baseVal = this.evalExpr(t.base)
-      if (typeof baseVal !== "number") throw new Error("Property access on non-object")
+      if (!isRef(baseVal)) this.fail("not-an-object", "Property access on non-object", t.span)
+      if (baseVal.typeName === "__map__") this.fail("not-an-object", `Cannot assign '${t.prop}' of a map, use [${JSON.stringify(t.prop)}]`, t.span)
+      this.checkStorable(value, t.span)
       const parentObj = this.heap.getObject(baseVal)
-      if (!parentObj) return
+      if (!parentObj) this.fail("deleted-object", `Cannot modify deleted object #${baseVal.id}`, t.span)
+      if (this.structRules.get(parentObj.typeName!)?.computed.has(t.prop)) this.fail("invalid-target", `Cannot assign computed field '${t.prop}'`, t.span)
       const isMandatory = this.heap.isFieldMandatory(parentObj.typeName, t.prop)
+      const prev = parentObj.fields.get(t.prop)
       this.heap.setField(baseVal, t.prop, value, isMandatory)
+      const undo = () => {
+        if (prev === undefined) this.heap.unsetField(baseVal, t.prop)
+        else this.heap.setField(baseVal, t.prop, prev, false)
+      }
+      let broken: Invariant | undefined
+      try {
+        broken = this.checkInvariants(baseVal, t.prop)
+      } catch (e) {
+        // an invariant that raises an error counts as violated
+        if (!baseVal.deleted) undo()
+        throw e
+      }
+      if (broken) {
+        // undo the write before failing
+        undo()
+        this.fail("invariant", this.invariantMessage(parentObj.typeName!, broken), t.span)
+      }
       return
     }
     if ((target as IndexExpr).kind === "IndexExpr") {
       const t = target as IndexExpr
-      const baseVal = this.evalExpr(t.base)
-      if (typeof baseVal !== "number") throw new Error("Indexing non-array")
+      this.checkStorable(value, t.span)
+      const baseVal = this.pin(this.evalExpr(t.base))
+      if (!isRef(baseVal)) this.fail("not-an-array", "Indexing non-array", t.span)
+      if (baseVal.deleted) this.fail("deleted-object", `Cannot modify deleted array #${baseVal.id}`, t.span)
       const obj = this.heap.getObject(baseVal)
-      if (!obj || obj.typeName !== "__array__") throw new Error("Indexing non-array")
+      if (obj?.typeName === "__map__") {
+        this.heap.setEntry(baseVal, this.mapKey(this.evalExpr(t.index), t.index.span), value)
+        return
+      }
+      if (!obj || obj.typeName !== "__array__") this.fail("not-an-array", "Indexing non-array", t.span)
       const idx = this.evalExpr(t.index)
-      const key = String(idx)
-      obj.fields.set(key, value)
-      const len = Number(obj.fields.get("length") ?? 0)
-      if (Number(idx) >= len) obj.fields.set("length", Number(idx) + 1)
+      if (typeof idx !== "number" || !Number.isInteger(idx) || idx < 0) this.fail("invalid-target", `Invalid array index ${this.formatValue(idx)}`, t.span)
+      this.heap.setElement(baseVal, idx, value)
       return
     }
-    throw new Error("Invalid assignment target")
+    this.fail("invalid-target", "Invalid assignment target", (target as any).span)
+  }
+
+  private checkStorable(value: any, span: Span) {
+    if (isRef(value) && value.deleted) this.fail("deleted-object", `Cannot store a reference to deleted object #${value.id}`, span)
   }
 
   private execPrint(stmt: PrintStmt) {
@@ -97,49 +389,242 @@ export class Interpreter {
     console.log(this.formatValue(value))
   }
 
-  private execBlock(block: BlockStmt) {
+  private execBlock(block: BlockStmt): Completion {
     const prev = this.env
+    this.envStack.push(prev)
     this.env = new Environment(prev)
     try {
       for (const s of block.statements) {
-        const res = this.execStatement(s)
-        if ((res as any)?.__return !== undefined) return res
+        const c = this.execStatement(s)
+        if (c.kind !== "normal") return c
       }
+      return NORMAL
     } finally {
       this.env = prev
+      this.envStack.pop()
     }
   }
 
-  private execIf(stmt: IfStmt) {
+  private execIf(stmt: IfStmt): Completion {
     if (this.truthy(this.evalExpr(stmt.condition))) return this.execStatement(stmt.thenBranch)
     if (stmt.elseBranch) return this.execStatement(stmt.elseBranch)
+    return NORMAL
+  }
+
+  // Runs one iteration of a loop body: "break" if the loop has to stop,
+  // "next" to go on, or the completion to pass to the enclosing statement.
+  private iterate(loop: { body: Statement; label?: string }): "break" | "next" | Completion {
+    const c = this.execStatement(loop.body)
+    if (c.kind === "normal") return "next"
+    if (c.kind === "return" || (c.label && c.label !== loop.label)) return c
+    return c.kind === "break" ? "break" : "next"
   }
 
-  private execWhile(stmt: WhileStmt) {
+  private execWhile(stmt: WhileStmt): Completion {
     while (this.truthy(this.evalExpr(stmt.condition))) {
-      const res = this.execStatement(stmt.body)
-      if ((res as any)?.__return !== undefined) return res
+      const next = this.iterate(stmt)
+      if (next === "break") break
+      if (next !== "next") return next
+    }
+    return NORMAL
+  }
+
+  // The init runs in a scope of its own that all iterations share.
+  private execFor(stmt: ForStmt): Completion {
+    const prev = this.env
+    this.envStack.push(prev)
+    this.env = new Environment(prev)
+    try {
+      if (stmt.init) this.execStatement(stmt.init)
+      while (!stmt.condition || this.truthy(this.evalExpr(stmt.condition))) {
+        const next = this.iterate(stmt)
+        if (next === "break") break
+        if (next !== "next") return next
+        if (stmt.update) this.execStatement(stmt.update)
+      }
+      return NORMAL
+    } finally {
+      this.env = prev
+      this.envStack.pop()
+    }
+  }
+
+  // Iterates over the elements an array held, or the fields an object (the
+  // keys a map) had, when the loop started; elements, fields and keys added
+  // by the body are not visited. Array elements that were deleted (e.g. by a
+  // cascade the body caused) before the loop reaches them are skipped,
+  // including those that a compact policy removed from the array, and so are
+  // map entries removed before they are reached; field and entry values are
+  // read when their iteration starts. The loop ends early once the iterated object
+  // itself is deleted. Every iteration binds its names in a new scope.
+  private execForIn(stmt: ForInStmt): Completion {
+    const mark = this.temps.length
+    const prev = this.env
+    try {
+      const target = this.pin(this.strong(this.evalExpr(stmt.iterable)))
+      if (!isRef(target)) this.fail("not-an-object", `Cannot iterate over ${this.formatValue(target)}, not an array or object`, stmt.iterable.span)
+      if (target.deleted) this.fail("deleted-object", `Cannot iterate over deleted object #${target.id}`, stmt.iterable.span)
+      const obj = this.heap.getObject(target)!
+      const isArray = obj.typeName === "__array__"
+      const keys = isArray ? [] : [...obj.fields.keys()]
+      const elements = isArray ? this.pinElements(obj) : []
+      const [first, second] = stmt.names
+      for (let i = 0; i < (isArray ? elements.length : keys.length); i++) {
+        if (target.deleted) break
+        if (obj.typeName === "__map__" && !obj.fields.has(keys[i])) continue
+        const value = this.strong(isArray ? elements[i] : this.heap.getField(target, keys[i]) ?? null)
+        if (isArray && isRef(value) && value.deleted) continue
+        this.envStack.push(prev)
+        this.env = new Environment(prev)
+        try {
+          if (second === undefined) this.env.setLocal(first, isArray ? value : keys[i])
+          else {
+            this.env.setLocal(first, isArray ? i : keys[i])
+            this.env.setLocal(second, value)
+          }
+          const next = this.iterate(stmt)
+          if (next === "break") break
+          if (next !== "next") return next
+        } finally {
+          this.env = prev
+          this.envStack.pop()
+        }
+      }
+      return NORMAL
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  // Heap changes are undone when the block aborts or fails; variables keep
+  // their values, and references to objects created inside the block read as
+  // deleted afterwards.
+  private execAtomic(stmt: AtomicStmt): Completion {
+    const snapshot = this.heap.snapshot()
+    this.atomicDepth++
+    try {
+      return this.execBlock(stmt.body)
+    } catch (e) {
+      // a thrown value outlives the rollback, so the outer `catch` can read it
+      this.heap.restore(snapshot, e instanceof Thrown ? [e.value] : [])
+      if (!(e instanceof Abort)) throw e
+      return NORMAL
+    } finally {
+      this.atomicDepth--
+    }
+  }
+
+  // `catch` handles errors (runtime errors as error values) but not `abort`.
+  // `finally` runs however the rest ended; if it ends with a jump, return or
+  // error of its own, that replaces the pending completion or error.
+  private execTry(stmt: TryStmt): Completion {
+    const mark = this.temps.length
+    let c: Completion
+    try {
+      try {
+        c = this.execBlock(stmt.body)
+      } catch (e) {
+        if (!stmt.handler || !(e instanceof CascError)) throw e
+        c = this.execCatch(stmt.handler, e)
+      }
+    } catch (e) {
+      if (!stmt.finalizer) throw e
+      // the error in flight keeps its value alive while finally runs
+      if (e instanceof Thrown) this.pin(e.value)
+      const f = this.execBlock(stmt.finalizer)
+      this.temps.length = mark
+      if (f.kind !== "normal") return f
+      throw e
+    }
+    if (!stmt.finalizer) return c
+    try {
+      if (c.kind === "return") this.pin(c.value)
+      const f = this.execBlock(stmt.finalizer)
+      return f.kind !== "normal" ? f : c
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  private execCatch(handler: NonNullable<TryStmt["handler"]>, e: CascError): Completion {
+    const prev = this.env
+    this.envStack.push(prev)
+    this.env = new Environment(prev)
+    try {
+      this.env.setLocal(handler.name, this.errorValue(e))
+      return this.execBlock(handler.body)
+    } finally {
+      this.env = prev
+      this.envStack.pop()
+    }
+  }
+
+  // Runtime errors are caught as `{ message, code, stack }` objects, with
+  // the stack trace as an array of strings; thrown values are caught as-is.
+  private errorValue(e: CascError): any {
+    if (e instanceof Thrown) return e.value
+    const stack = this.heap.createArray(e.trace ?? [])
+    return this.heap.createObject(undefined, { message: e.message, code: e.code, stack })
+  }
+
+  // Frames of the active calls, innermost first, each at the location it is
+  // executing: `span` in the innermost one, the call sites in the others.
+  private stackTrace(span: Span | undefined): string[] {
+    const frame = (name: string, file: string | undefined, at: Span | undefined) =>
+      `${name} (${[file ?? "<input>", at?.line, at?.column].filter(p => p !== undefined).join(":")})`
+    const trace: string[] = []
+    let file = this.file
+    for (let i = this.calls.length - 1; i >= 0; i--) {
+      trace.push(frame(this.calls[i].name, file, span))
+      file = this.calls[i].file
+      span = this.calls[i].span
+    }
+    trace.push(frame("<main>", file, span))
+    if (trace.length <= MAX_TRACE) return trace
+    return [...trace.slice(0, MAX_TRACE - 1), `... ${trace.length - MAX_TRACE + 1} more frames`]
+  }
+
+  private execDelete(stmt: DeleteStmt) {
+    const mark = this.temps.length
+    try {
+      const target = this.pin(this.evalExpr(stmt.target))
+      if (!isRef(target)) this.fail("not-an-object", `Cannot delete ${this.formatValue(target)}, not an object`, stmt.target.span)
+      if (target.deleted) this.fail("deleted-object", `Object #${target.id} is already deleted`, stmt.target.span)
+      this.heap.deleteObjectCascade(target, { kind: "delete" })
+    } finally {
+      this.temps.length = mark
     }
   }
 
   private execFnDecl(stmt: FnDeclStmt) {
-    const fn: FunctionValue = { kind: "function", name: stmt.name, params: stmt.params, body: stmt.body, env: this.env }
+    if (stmt.receiver) return this.declareMethod(stmt)
+    const fn: FunctionValue = { kind: "function", name: stmt.name, params: stmt.params.map(p => p.name), body: stmt.body, env: this.env, file: this.file }
     this.env.setLocal(stmt.name, fn)
+    if (stmt.exported) this.module.exports.add(stmt.name)
   }
 
-  private execReturn(stmt: ReturnStmt) {
-    const value = stmt.value ? this.evalExpr(stmt.value) : null
-    return { __return: value }
+  // Methods belong to the struct type (qualified like the struct itself), so
+  // they are called on its objects wherever those come from.
+  private declareMethod(stmt: FnDeclStmt) {
+    const struct = this.env.get(stmt.receiver!)?.value
+    if (struct?.kind !== "struct") this.fail("undefined-variable", `Unknown struct ${stmt.receiver} for method ${stmt.receiver}.${stmt.name}`, stmt.span)
+    const type = (struct as StructValue).name
+    if (this.heap.fieldSpec(type, stmt.name) || this.structRules.get(type)?.computed.has(stmt.name)) this.fail("invalid-target", `Method '${stmt.name}' clashes with a field of ${stmt.receiver}`, stmt.span)
+    const fn: FunctionValue = { kind: "function", name: `${stmt.receiver}.${stmt.name}`, params: stmt.params.map(p => p.name), body: stmt.body, env: this.env, file: this.file }
+    const methods = this.methods.get(type) ?? new Map<string, FunctionValue>()
+    methods.set(stmt.name, fn)
+    this.methods.set(type, methods)
   }
 
-  private formatValue(value: any): string {
+  formatValue(value: any): string {
     if (value === null || value === undefined) return "null"
-    if (typeof value === "number") {
-      const isObjectId = this.heap.getObject(value) !== undefined
-      return isObjectId ? `[Object#${value}]` : String(value)
-    }
+    if (isRef(value)) return value.deleted ? `[Deleted#${value.id}]` : `[Object#${value.id}]`
+    if (isWeak(value)) return value.target.deleted ? "null" : `[Weak#${value.target.id}]`
+    if (typeof value === "number") return String(value)
     if (typeof value === "boolean") return String(value)
     if (typeof value === "string") return JSON.stringify(value)
+    if (value.kind === "struct") return `[struct ${(value as StructValue).displayName}]`
+    if (value.kind === "function") return `[fn ${(value as FunctionValue).name ?? "anonymous"}]`
     return String(value)
   }
 
@@ -153,74 +638,274 @@ export class Interpreter {
       case "AccessExpr": return this.evalAccess(expr as AccessExpr)
       case "ObjectLit": return this.evalObject(expr as ObjectLit)
       case "ArrayLit": return this.evalArray(expr as ArrayLit)
+      case "MapLit": return this.evalMap(expr as MapLit)
       case "IndexExpr": return this.evalIndex(expr as IndexExpr)
       case "CallExpr": return this.evalCall(expr as CallExpr)
       case "UnaryExpr": return this.evalUnary(expr as UnaryExpr)
       case "BinaryExpr": return this.evalBinary(expr as BinaryExpr)
+      case "TemplateExpr": {
+        const { strings, exprs } = expr as TemplateExpr
+        return strings.reduce((out, s, i) => i === 0 ? s : out + this.stringOf(this.evalExpr(exprs[i - 1])) + s, "")
+      }
+      case "FnExpr": {
+        const { params, body } = expr as FnExpr
+        const fn: FunctionValue = { kind: "function", params: params.map(p => p.name), body, env: this.env, file: this.file }
+        return fn
+      }
     }
   }
 
   private evalIdent(expr: IdentExpr): any {
     const entry = this.env.get(expr.name)
-    if (!entry) throw new Error(`Undefined variable ${expr.name}`)
-    return entry.value
+    if (!entry) this.fail("undefined-variable", `Undefined variable ${expr.name}`, expr.span)
+    return this.strong(entry.value)
+  }
+
+  // Weak references are stored as such but read as their target, or as null
+  // once the target is gone.
+  private strong(value: any): any {
+    return isWeak(value) ? (value.target.deleted ? null : value.target) : value
   }
 
   private evalAccess(expr: AccessExpr): any {
-    const base = this.evalExpr(expr.base)
-    if (typeof base !== "number") throw new Error("Property access on non-object")
+    return this.accessValue(expr, this.evalExpr(expr.base))
+  }
+
+  private accessValue(expr: AccessExpr, base: any): any {
+    if (!isRef(base)) this.fail("not-an-object", "Property access on non-object", expr.span)
+    // map entries are only reached by indexing, so keys never clash with fields
+    if (base.typeName === "__map__") this.fail("not-an-object", `Cannot read '${expr.prop}' of a map, use [${JSON.stringify(expr.prop)}]`, expr.span)
+    const rules = base.typeName ? this.structRules.get(base.typeName) : undefined
+    const computed = rules?.computed.get(expr.prop)
+    if (computed && (!base.deleted || this.tombstones.has(base.id))) return this.evalRule(rules!, base, computed)
+    if (base.deleted) {
+      const tombstone = this.tombstones.get(base.id)
+      if (!tombstone) this.fail("deleted-object", `Cannot read '${expr.prop}' of deleted object #${base.id}`, expr.span)
+      return this.strong(tombstone.get(expr.prop) ?? null)
+    }
     const value = this.heap.getField(base, expr.prop)
-    return value ?? null
+    return this.strong(value ?? null)
+  }
+
+  // Evaluates a computed field or invariant with `self` bound to the object.
+  private evalRule(rules: StructRules, self: ObjectRef, expr: Expression): any {
+    const prev = this.env
+    this.envStack.push(prev)
+    this.env = new Environment(rules.env)
+    this.env.setLocal("self", self)
+    try {
+      return this.evalExpr(expr)
+    } finally {
+      this.env = prev
+      this.envStack.pop()
+    }
+  }
+
+  // Checks the invariants of a live object after `field` was written (or
+  // after it was created). The first failing `else delete` invariant deletes
+  // the object, cascading like a mandatory field set to null; the first other
+  // failing invariant is returned for the caller to undo the write and fail.
+  private checkInvariants(ref: ObjectRef, field?: string): Invariant | undefined {
+    const rules = ref.typeName ? this.structRules.get(ref.typeName) : undefined
+    for (const invariant of rules?.invariants ?? []) {
+      if (ref.deleted) return
+      if (this.truthy(this.evalRule(rules!, ref, invariant.expr))) continue
+      if (!invariant.cascade) return invariant
+      this.heap.deleteObjectCascade(ref, { kind: "invariant", field })
+    }
+  }
+
+  private invariantMessage(typeName: string, invariant: Invariant): string {
+    return `Invariant of ${this.structRules.get(typeName)!.displayName} declared at line ${invariant.span.line} violated`
   }
 
   private evalObject(expr: ObjectLit): any {
-    const id = this.heap.createObject(expr.typeName)
-    for (const { key, value } of expr.props) {
-      const v = value ? this.evalExpr(value) : null
-      const obj = this.heap.getObject(id)
-      if (!obj) continue
-      const isMandatory = this.heap.isFieldMandatory(obj.typeName, key)
-      this.heap.setField(id, key, v, isMandatory)
+    const mark = this.temps.length
+    const ref = this.pin(this.heap.createObject(this.resolveTypeName(expr.typeName)))
+    try {
+      for (const { key, value } of expr.props) {
+        const v = value ? this.evalExpr(value) : null
+        this.checkStorable(v, value?.span ?? expr.span)
+        const obj = this.heap.getObject(ref)
+        if (!obj) continue
+        if (this.structRules.get(obj.typeName!)?.computed.has(key)) this.fail("invalid-target", `Cannot assign computed field '${key}'`, expr.span)
+        const isMandatory = this.heap.isFieldMandatory(obj.typeName, key)
+        this.heap.setField(ref, key, v, isMandatory)
+      }
+      // invariants hold once all the fields are set
+      const broken = this.checkInvariants(ref)
+      if (broken) this.fail("invariant", this.invariantMessage(ref.typeName!, broken), expr.span)
+      return ref
+    } catch (e) {
+      // a half-built object must not show up in all() or findBy()
+      this.heap.discard(ref)
+      throw e
+    } finally {
+      this.temps.length = mark
     }
-    return id
+  }
+
+  // Struct names are looked up like variables so imported types resolve to the
+  // declaring module's qualified name; unknown names are used as-is.
+  private resolveTypeName(typeName: string | undefined): string | undefined {
+    if (!typeName) return undefined
+    const value = this.env.get(typeName)?.value
+    return value?.kind === "struct" ? (value as StructValue).name : typeName
   }
 
   private evalArray(expr: ArrayLit): any {
-    const elements = expr.elements.map(e => e ? this.evalExpr(e) : null)
-    return this.heap.createArray(elements)
+    const mark = this.temps.length
+    try {
+      const elements = expr.elements.map(e => this.pin(e ? this.evalExpr(e) : null))
+      elements.forEach((v, i) => this.checkStorable(v, expr.elements[i]?.span ?? expr.span))
+      return this.heap.createArray(elements)
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  // Entries are stored one by one as by `m[key] = value`, so with a compact
+  // or cascade policy a null value removes the entry or deletes the map.
+  private evalMap(expr: MapLit): any {
+    const mark = this.temps.length
+    const ref = this.pin(this.heap.createMap(expr.policy))
+    try {
+      for (const { key, value } of expr.entries) {
+        const v = this.pin(this.evalExpr(value))
+        this.checkStorable(v, value.span)
+        this.heap.setEntry(ref, key, v)
+      }
+      return ref
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  // map keys are strings; other values are not converted
+  private mapKey(key: any, span: Span): string {
+    if (typeof key !== "string") this.fail("invalid-target", `Map keys must be strings, got ${this.formatValue(key)}`, span)
+    return key
   }
 
   private evalIndex(expr: IndexExpr): any {
-    const base = this.evalExpr(expr.base)
-    if (typeof base !== "number") throw new Error("Indexing non-array")
+    const mark = this.temps.length
+    try {
+      return this.indexValue(expr, this.pin(this.evalExpr(expr.base)))
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  private indexValue(expr: IndexExpr, base: any): any {
+    if (!isRef(base)) this.fail("not-an-array", "Indexing non-array", expr.span)
+    if (base.deleted) this.fail("deleted-object", `Cannot index deleted array #${base.id}`, expr.span)
     const obj = this.heap.getObject(base)
-    if (!obj || obj.typeName !== "__array__") throw new Error("Indexing non-array")
+    // a missing key reads as null
+    if (obj?.typeName === "__map__") return this.strong(obj.fields.get(this.mapKey(this.evalExpr(expr.index), expr.index.span)) ?? null)
+    if (!obj || obj.typeName !== "__array__") this.fail("not-an-array", "Indexing non-array", expr.span)
     const idx = this.evalExpr(expr.index)
     const value = obj.fields.get(String(idx))
-    return value ?? null
+    return this.strong(value ?? null)
   }
 
   private evalCall(expr: CallExpr): any {
-    const callee = this.evalExpr(expr.callee)
-    const args = expr.args.map(a => this.evalExpr(a))
-    if (typeof callee === "function") return callee(...args)
+    const mark = this.temps.length
+    try {
+      let callee: any
+      if (expr.callee.kind === "AccessExpr") {
+        // obj.name(...) calls the method of obj's struct if it has one, with
+        // obj as the first argument, and otherwise the function in the field
+        const base = this.pin(this.evalExpr(expr.callee.base))
+        const method = isRef(base) && base.typeName ? this.methods.get(base.typeName)?.get(expr.callee.prop) : undefined
+        if (method) return this.callValue(expr, method, [base, ...expr.args.map(a => this.pin(this.evalExpr(a)))])
+        callee = this.pin(this.accessValue(expr.callee, base))
+      } else callee = this.pin(this.evalExpr(expr.callee))
+      // wouldCascade(obj.field) asks about the field, not its value
+      const [arg] = expr.args
+      if (callee === this.wouldCascade && arg?.kind === "AccessExpr" && expr.args.length === 1) {
+        return this.callValue(expr, callee, [this.pin(this.evalExpr(arg.base)), arg.prop])
+      }
+      const args = expr.args.map(a => this.pin(this.evalExpr(a)))
+      return this.callValue(expr, callee, args)
+    } finally {
+      this.temps.length = mark
+    }
+  }
+
+  private callValue(expr: CallExpr, callee: any, args: any[]): any {
+    if (typeof callee === "function") {
+      const site = this.nativeCallSite
+      this.nativeCallSite = expr.span
+      try {
+        return callee(...args)
+      } catch (e) {
+        if (e instanceof CascError) e.locate(expr.span, this.file)
+        throw e
+      } finally {
+        this.nativeCallSite = site
+      }
+    }
     const fn = callee as FunctionValue
-    if (!fn || fn.kind !== "function") throw new Error("Call to non-function")
+    if (!fn || fn.kind !== "function") this.fail("not-callable", "Call to non-function", expr.span)
+    return this.callFunction(fn, args, expr.span)
+  }
+
+  private callFunction(fn: FunctionValue, args: any[], span?: Span): any {
     const prev = this.env
+    const prevFile = this.file
+    this.envStack.push(prev)
+    this.calls.push({ name: fn.name ?? "<anonymous>", file: prevFile, span })
     this.env = new Environment(fn.env)
+    this.file = fn.file
     for (let i = 0; i < fn.params.length; i++) this.env.setLocal(fn.params[i], args[i])
     try {
-      const result = this.execBlock(fn.body)
-      if (result && (result as any).__return !== undefined) return (result as any).__return
-      return null
+      const c = this.execBlock(fn.body)
+      return c.kind === "return" ? c.value : null
+    } catch (e) {
+      // the JS stack runs out long before any sensible recursion depth; if
+      // reporting that overflows again, the caller's frame retries
+      if (e instanceof RangeError && e.message.includes("call stack")) this.fail("stack-overflow", `Maximum call depth exceeded in ${fn.name ?? "<anonymous>"}`)
+      throw e
     } finally {
       this.env = prev
+      this.file = prevFile
+      this.envStack.pop()
+      this.calls.pop()
+    }
+  }
+
+  // Calls a function value or builtin on behalf of a builtin.
+  private invoke(f: any, args: any[]): any {
+    if (typeof f === "function") return f(...args)
+    if (f?.kind !== "function") throw new CascError("not-callable", `Expected a function, got ${this.formatValue(f)}`)
+    return this.callFunction(f, args, this.nativeCallSite)
+  }
+
+  // Visits the elements of array `xs` as for-in does, for the builtins that
+  // take a callback: the elements it held when the builtin was called, minus
+  // those deleted before they are reached; a false result stops the visit.
+  private eachElement(builtin: string, xs: any, visit: (value: any, index: number) => boolean | void) {
+    const obj = isRef(xs) && !xs.deleted ? this.heap.getObject(xs) : undefined
+    if (!obj || obj.typeName !== "__array__") throw new CascError("not-an-array", `${builtin} expects an array, got ${this.formatValue(xs)}`)
+    const elements = this.pinElements(obj)
+    for (let i = 0; i < elements.length && !xs.deleted; i++) {
+      const value = this.strong(elements[i])
+      if (isRef(value) && value.deleted) continue
+      if (visit(value, i) === false) return
     }
   }
 
+  // the current elements of an array, pinned until the enclosing expression ends
+  private pinElements(obj: HeapObject): any[] {
+    return Array.from({ length: Number(obj.fields.get("length") ?? 0) }, (_, i) => this.pin(obj.fields.get(String(i)) ?? null))
+  }
+
   private evalUnary(expr: UnaryExpr): any {
     const v = this.evalExpr(expr.expr)
-    if (expr.op === "-") return -Number(v)
+    if (expr.op === "-") {
+      if (typeof v !== "number") this.fail("invalid-operand", `Operator '-' cannot be applied to ${this.typeOf(v)}`, expr.span)
+      return -v
+    }
     if (expr.op === "!") return !this.truthy(v)
     return null
   }
@@ -229,34 +914,315 @@ export class Interpreter {
     const l = this.evalExpr(expr.left)
     if (expr.op === "&&") return this.truthy(l) ? this.evalExpr(expr.right) : l
     if (expr.op === "||") return this.truthy(l) ? l : this.evalExpr(expr.right)
-    const r = this.evalExpr(expr.right)
+    const mark = this.temps.length
+    this.pin(l)
+    let r: any
+    try {
+      r = this.evalExpr(expr.right)
+    } finally {
+      this.temps.length = mark
+    }
+    if (expr.op === "==") return this.equals(l, r)
+    if (expr.op === "!=") return !this.equals(l, r)
+    if (!["+", "-", "*", "/", "<", ">", "<=", ">="].includes(expr.op)) this.fail("unknown-operator", `Unknown operator ${expr.op}`, expr.span)
+    // `+` adds numbers or concatenates strings, comparisons take two numbers
+    // or two strings; the other operators take numbers only
+    const numbers = typeof l === "number" && typeof r === "number"
+    const strings = typeof l === "string" && typeof r === "string" && !["-", "*", "/"].includes(expr.op)
+    if (!numbers && !strings) this.fail("invalid-operand", `Operator '${expr.op}' cannot be applied to ${this.typeOf(l)} and ${this.typeOf(r)}`, expr.span)
     switch (expr.op) {
-      case "+": return Number(l) + Number(r)
-      case "-": return Number(l) - Number(r)
-      case "*": return Number(l) * Number(r)
-      case "/": return Number(l) / Number(r)
-      case "==": return this.equals(l, r)
-      case "!=": return !this.equals(l, r)
-      case "<": return Number(l) < Number(r)
-      case ">": return Number(l) > Number(r)
-      case "<=": return Number(l) <= Number(r)
-      case ">=": return Number(l) >= Number(r)
-      default: throw new Error(`Unknown operator ${expr.op}`)
+      case "+": return l + r
+      case "-": return (l as number) - r
+      case "*": return (l as number) * r
+      case "/": return (l as number) / r
+      case "<": return l < r
+      case ">": return l > r
+      case "<=": return l <= r
+      case ">=": return l >= r
+    }
+  }
+
+  // strings as they are, everything else as println shows it
+  private stringOf(v: any): string {
+    return typeof v === "string" ? v : this.formatValue(v)
+  }
+
+  private pin<T>(value: T): T {
+    this.temps.push(value)
+    return value
+  }
+
+  // Roots are every binding visible from the current or a suspended
+  // environment (closures keep their defining environment alive), the scopes
+  // methods, delete handlers, computed fields and invariants were declared
+  // in, plus the temporaries of expressions still under evaluation.
+  collectGarbage(): GcStats {
+    const roots: ObjectRef[] = []
+    const seen = new Set<Environment>()
+    const visitValue = (v: any) => {
+      if (isRef(v)) roots.push(v)
+      else if (v && v.kind === "function" && v.env) visitEnv(v.env)
+    }
+    const visitEnv = (env: Environment | undefined) => {
+      for (; env && !seen.has(env); env = env.parent) {
+        seen.add(env)
+        for (const [, entry] of env.entries()) visitValue(entry.value)
+      }
     }
+    visitEnv(this.env)
+    for (const env of this.envStack) visitEnv(env)
+    for (const record of this.modules.records()) visitEnv(record.env)
+    for (const methods of this.methods.values()) methods.forEach(visitValue)
+    for (const handler of this.deleteHandlers.values()) visitEnv(handler.env)
+    for (const rules of this.structRules.values()) visitEnv(rules.env)
+    for (const fields of this.tombstones.values()) fields.forEach(visitValue)
+    for (const deletion of this.pendingDeletions) deletion.fields.forEach(visitValue)
+    for (const v of this.temps) visitValue(v)
+    return this.heap.collect(roots)
+  }
+
+  // Serializes the heap ("json", "dot" or "mermaid"), see dump.ts.
+  dumpHeap(format = "json"): string {
+    return dumpHeap(this.heap, this.rootNames(), format)
+  }
+
+  // Saves the heap, the struct types and the variables of the entry module as
+  // JSON, see snapshot.ts. Functions declared at the top level of a module
+  // are code, not state: they are left out and must be declared again by the
+  // restoring script. Any other function value fails the save.
+  saveSnapshot(): string {
+    const moduleEnvs = new Set([...this.modules.records()].map(r => r.env))
+    if (this.entry) moduleEnvs.add(this.entry.env)
+    const bindings = new Map<string, any>()
+    for (const [name, { value }] of this.entry?.env.entries() ?? []) {
+      if (value?.kind === "function" && value.name === name && moduleEnvs.has(value.env)) continue
+      bindings.set(name, value)
+    }
+    return saveSnapshot(this.heap, bindings)
+  }
+
+  // Loads a snapshot into this interpreter, which must not have run anything
+  // yet. Returns the names of the restored variables.
+  restoreSnapshot(text: string): string[] {
+    if (this.entry) throw new CascError("snapshot-error", "Cannot restore a snapshot after the program started")
+    this.restored = loadSnapshot(this.heap, text)
+    return [...this.restored.keys()]
+  }
+
+  // Names of the variables holding each live object: module variables (with
+  // the namespace of imported modules) and locals of the active calls.
+  private rootNames(): Map<ObjectId, string[]> {
+    const names = new Map<ObjectId, string[]>()
+    const seen = new Set<Environment>([this.globals])
+    const visit = (env: Environment | undefined, prefix: string) => {
+      for (; env && !seen.has(env); env = env.parent) {
+        seen.add(env)
+        for (const [name, entry] of env.entries()) {
+          if (!isRef(entry.value) || !this.heap.isAlive(entry.value)) continue
+          const list = names.get(entry.value.id) ?? []
+          list.push(prefix + name)
+          names.set(entry.value.id, list)
+        }
+      }
+    }
+    for (const record of this.modules.records()) visit(record.env, record.namespace)
+    visit(this.env, "")
+    for (const env of this.envStack) visit(env, "")
+    for (const list of names.values()) list.sort()
+    return names
   }
 
   private truthy(v: any): boolean { return !(v === null || v === false) }
   private equals(a: any, b: any): boolean { return a === b }
 
+  // { objectId, typeName, cause, field, children: [...] }
+  private traceValue(trace: CascadeTrace): ObjectRef {
+    const children = this.heap.createArray(trace.children.map(c => this.traceValue(c)))
+    const { objectId, typeName, cause, field } = trace
+    return this.heap.createObject(undefined, { objectId, typeName: typeName ?? null, cause, field: field ?? null, children })
+  }
+
+  // "number", "string", "bool", "null", "function", "struct", "array", "map",
+  // "object" for untyped objects, or the struct name (also for deleted objects)
+  private typeOf(value: any): string {
+    if (value === null || value === undefined) return "null"
+    if (typeof value === "boolean") return "bool"
+    if (typeof value === "number" || typeof value === "string") return typeof value
+    if (typeof value === "function" || value.kind === "function") return "function"
+    if (value.kind === "struct") return "struct"
+    const typeName = (value as ObjectRef).typeName
+    if (!typeName) return "object"
+    if (typeName === "__array__") return "array"
+    if (typeName === "__map__") return "map"
+    // struct names of imported modules are qualified with their namespace
+    const sep = typeName.lastIndexOf("::")
+    return sep < 0 ? typeName : typeName.slice(sep + 2)
+  }
+
+  // Objects that setting `target.field` to null (or deleting `target` when no
+  // field is given) would remove, without removing them.
+  private cascadePreview(target: any, field?: string): ObjectRef {
+    if (!isRef(target)) throw new CascError("not-an-object", "wouldCascade expects an object")
+    const obj = this.heap.getObject(target)
+    if (!obj || (field !== undefined && !this.heap.isFieldMandatory(obj.typeName, field))) return this.heap.createArray([])
+    return this.heap.createArray(this.heap.planCascade(target))
+  }
+
+  private structName(type: any, builtin: string): string {
+    if (type?.kind !== "struct") throw new CascError("invalid-argument", `${builtin} expects a struct type, got ${this.formatValue(type)}`)
+    return (type as StructValue).name
+  }
+
+  // Callbacks receive the element and its index (reduce: the accumulator
+  // first). Results hold null for elements deleted while the builtin ran.
+  private installArrayBuiltins() {
+    const live = (v: any) => isRef(v) && v.deleted ? null : v
+    this.globals.setLocal("map", (xs: any, f: any) => {
+      const out: any[] = []
+      this.eachElement("map", xs, (v, i) => { out.push(this.pin(this.invoke(f, [v, i]))) })
+      return this.heap.createArray(out.map(live))
+    })
+    this.globals.setLocal("filter", (xs: any, f: any) => {
+      const out: any[] = []
+      this.eachElement("filter", xs, (v, i) => { if (this.truthy(this.invoke(f, [v, i]))) out.push(v) })
+      return this.heap.createArray(out.map(live))
+    })
+    // without an initial value the first element starts the accumulator
+    this.globals.setLocal("reduce", (xs: any, f: any, initial?: any) => {
+      let acc = initial
+      let started = initial !== undefined
+      this.eachElement("reduce", xs, (v, i) => {
+        acc = this.pin(started ? this.invoke(f, [acc, v, i]) : v)
+        started = true
+      })
+      return acc ?? null
+    })
+    this.globals.setLocal("find", (xs: any, f: any) => {
+      let found = null
+      this.eachElement("find", xs, (v, i) => {
+        if (!this.truthy(this.invoke(f, [v, i]))) return
+        found = v
+        return false
+      })
+      return live(found)
+    })
+    // stable; keys must be all numbers or all strings
+    this.globals.setLocal("sortBy", (xs: any, f: any) => {
+      const keyed: { v: any; key: any }[] = []
+      this.eachElement("sortBy", xs, (v, i) => { keyed.push({ v, key: this.invoke(f, [v, i]) }) })
+      const kinds = new Set(keyed.map(k => typeof k.key))
+      if (kinds.size > 1 || (kinds.size === 1 && !kinds.has("number") && !kinds.has("string"))) {
+        throw new CascError("invalid-argument", `sortBy keys must be all numbers or all strings, got ${keyed.map(k => this.formatValue(k.key)).join(", ")}`)
+      }
+      keyed.sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+      return this.heap.createArray(keyed.map(k => live(k.v)))
+    })
+    this.globals.setLocal("forEach", (xs: any, f: any) => {
+      this.eachElement("forEach", xs, (v, i) => { this.invoke(f, [v, i]) })
+      return null
+    })
+  }
+
+  private installStringBuiltins() {
+    const str = (builtin: string, v: any, what = "a string"): string => {
+      if (typeof v !== "string") throw new CascError("invalid-argument", `${builtin} expects ${what}, got ${this.formatValue(v)}`)
+      return v
+    }
+    const index = (builtin: string, v: any): number => {
+      if (typeof v !== "number" || !Number.isInteger(v) || v < 0) throw new CascError("invalid-argument", `${builtin} expects a non-negative integer, got ${this.formatValue(v)}`)
+      return v
+    }
+    // substr(s, start, length?); parts past the end of s are left out
+    this.globals.setLocal("substr", (s: any, start: any, length?: any) => {
+      const from = index("substr", start)
+      return str("substr", s).slice(from, length === undefined || length === null ? undefined : from + index("substr", length))
+    })
+    this.globals.setLocal("split", (s: any, sep: any) => this.heap.createArray(str("split", s).split(str("split", sep, "a separator string"))))
+    this.globals.setLocal("join", (xs: any, sep: any) => {
+      const obj = isRef(xs) && !xs.deleted ? this.heap.getObject(xs) : undefined
+      if (!obj || obj.typeName !== "__array__") throw new CascError("not-an-array", `join expects an array, got ${this.formatValue(xs)}`)
+      const elements = Array.from({ length: Number(obj.fields.get("length") ?? 0) }, (_, i) => this.stringOf(this.strong(obj.fields.get(String(i)) ?? null)))
+      return elements.join(str("join", sep, "a separator string"))
+    })
+    this.globals.setLocal("indexOf", (s: any, part: any) => str("indexOf", s).indexOf(str("indexOf", part)))
+    this.globals.setLocal("upper", (s: any) => str("upper", s).toUpperCase())
+    this.globals.setLocal("lower", (s: any) => str("lower", s).toLowerCase())
+    this.globals.setLocal("trim", (s: any) => str("trim", s).trim())
+    // replaces every occurrence
+    this.globals.setLocal("replace", (s: any, from: any, to: any) => str("replace", s).split(str("replace", from)).join(str("replace", to)))
+    this.globals.setLocal("toString", (v: any) => this.stringOf(v))
+    // null if s is not a number
+    this.globals.setLocal("parseNumber", (s: any) => {
+      const text = str("parseNumber", s).trim()
+      const n = Number(text)
+      return text === "" || Number.isNaN(n) ? null : n
+    })
+  }
+
+  // Entries come in insertion order. The arrays returned are copies, so the
+  // map can be changed while going through them.
+  private installMapBuiltins() {
+    const mapOf = (builtin: string, m: any): HeapObject => {
+      const obj = isRef(m) && !m.deleted ? this.heap.getObject(m) : undefined
+      if (!obj || obj.typeName !== "__map__") throw new CascError("not-a-map", `${builtin} expects a map, got ${this.formatValue(m)}`)
+      return obj
+    }
+    const entriesOf = (builtin: string, m: any) => [...mapOf(builtin, m).fields].map(([k, v]) => [k, this.strong(v)] as [string, any])
+    const key = (builtin: string, k: any): string => {
+      if (typeof k !== "string") throw new CascError("invalid-argument", `${builtin} expects a string key, got ${this.formatValue(k)}`)
+      return k
+    }
+    this.globals.setLocal("keys", (m: any) => this.heap.createArray(entriesOf("keys", m).map(([k]) => k)))
+    this.globals.setLocal("values", (m: any) => this.heap.createArray(entriesOf("values", m).map(([, v]) => v)))
+    // [{ key, value }, ...]
+    this.globals.setLocal("entries", (m: any) => this.heap.createArray(entriesOf("entries", m).map(([k, v]) => this.heap.createObject(undefined, { key: k, value: v }))))
+    this.globals.setLocal("has", (m: any, k: any) => mapOf("has", m).fields.has(key("has", k)))
+    // true if the map had the key; unlike storing null, removing never cascades
+    this.globals.setLocal("remove", (m: any, k: any) => this.heap.removeEntry(mapOf("remove", m).ref, key("remove", k)))
+  }
+
   private installStdlib() {
     this.globals.setLocal("println", (...args: any[]) => { console.log(...args.map(v => this.formatValue(v))); return null })
     this.globals.setLocal("len", (arr: any) => {
-      if (typeof arr !== "number") return 0
+      if (typeof arr === "string") return arr.length
+      if (!isRef(arr)) return 0
       const obj = this.heap.getObject(arr)
+      if (obj?.typeName === "__map__") return obj.fields.size
       if (!obj || obj.typeName !== "__array__") return 0
       return Number(obj.fields.get("length") ?? 0)
     })
-    this.globals.setLocal("assert", (cond: any, msg?: any) => { if (!cond) throw new Error(`Assertion failed${msg ? ": " + msg : ""}`); return null })
+    this.globals.setLocal("gc", () => {
+      const stats = this.collectGarbage()
+      return this.heap.createObject(undefined, { freed: stats.freed, live: stats.live })
+    })
+    this.globals.setLocal("wouldCascade", this.wouldCascade)
+    this.globals.setLocal("isAlive", (v: any) => isRef(v) && !v.deleted)
+    this.globals.setLocal("isDeleted", (v: any) => isRef(v) && v.deleted)
+    this.globals.setLocal("idOf", (v: any) => {
+      if (!isRef(v)) throw new CascError("not-an-object", `idOf expects an object, got ${this.formatValue(v)}`)
+      return v.id
+    })
+    this.globals.setLocal("typeOf", (v: any) => this.typeOf(v))
+    this.globals.setLocal("dumpHeap", (format?: any) => this.dumpHeap(format ?? "json"))
+    this.globals.setLocal("weak", (v: any) => {
+      if (v === null || v === undefined) return null
+      if (!isRef(v)) throw new CascError("not-an-object", `weak expects an object, got ${this.formatValue(v)}`)
+      if (v.deleted) throw new CascError("deleted-object", `Cannot make a weak reference to deleted object #${v.id}`)
+      return new WeakValue(v)
+    })
+    this.globals.setLocal("all", (type: any) => this.heap.createArray(this.heap.instancesOf(this.structName(type, "all"))))
+    // a single object (or null) for unique fields, an array for indexed ones
+    this.globals.setLocal("findBy", (type: any, field: any, value: any) => {
+      const name = this.structName(type, "findBy")
+      if (typeof field !== "string") throw new CascError("invalid-argument", `findBy expects a field name, got ${this.formatValue(field)}`)
+      const found = this.heap.findBy(name, field, value ?? null)
+      return this.heap.fieldSpec(name, field)!.index === "unique" ? found[0] ?? null : this.heap.createArray(found)
+    })
+    this.installArrayBuiltins()
+    this.installStringBuiltins()
+    this.installMapBuiltins()
+    this.globals.setLocal("explainLastCascade", () => this.heap.lastCascade ? this.traceValue(this.heap.lastCascade) : null)
+    this.globals.setLocal("assert", (cond: any, msg?: any) => { if (!cond) throw new CascError("assertion", `Assertion failed${msg ? ": " + msg : ""}`); return null })
   }
 }
 
@@ -0,0 +1,93 @@
+import { readFileSync } from "node:fs"
+import { dirname, relative, resolve } from "node:path"
+import { Program, Span } from "../core/ast.js"
+import { CascError } from "../core/errors.js"
+import { Parser } from "../core/parser.js"
+import { Environment } from "./environment.js"
+
+export type SourceReader = (path: string) => string
+
+export interface ModuleRecord {
+  path?: string
+  // prefix of the struct type names declared by the module ("" for the entry module)
+  namespace: string
+  env: Environment
+  exports: Set<string>
+  state: "loading" | "loaded"
+}
+
+// Resolves, caches and tracks the loading state of modules. Each module runs in
+// its own Environment whose parent holds the builtins.
+export class ModuleLoader {
+  private modules = new Map<string, ModuleRecord>()
+  // paths of the modules currently being executed, outermost first
+  private loading: string[] = []
+  private rootDir = process.cwd()
+
+  constructor(
+    private globals: Environment,
+    private readSource: SourceReader = path => readFileSync(path, "utf-8"),
+    private onLoad?: (program: Program, src: string) => void,
+  ) {}
+
+  // Registers the program handed to Interpreter.run. It is cached under its
+  // own path so that an import leading back to it is reported as a cycle.
+  enter(path: string | undefined): ModuleRecord {
+    const record: ModuleRecord = { path, namespace: "", env: new Environment(this.globals), exports: new Set(), state: "loading" }
+    if (path) {
+      const abs = resolve(path)
+      this.rootDir = dirname(abs)
+      record.path = abs
+      this.modules.set(abs, record)
+      this.loading.push(abs)
+    }
+    return record
+  }
+
+  finish(record: ModuleRecord) {
+    record.state = "loaded"
+    if (record.path && this.loading[this.loading.length - 1] === record.path) this.loading.pop()
+  }
+
+  resolve(spec: string, fromFile?: string): string {
+    return resolve(fromFile ? dirname(resolve(fromFile)) : this.rootDir, spec)
+  }
+
+  load(spec: string, fromFile: string | undefined, span: Span, execute: (program: Program, record: ModuleRecord) => void): ModuleRecord {
+    const path = this.resolve(spec, fromFile)
+    const cached = this.modules.get(path)
+    if (cached?.state === "loaded") return cached
+    if (cached) {
+      const chain = [...this.loading.slice(this.loading.indexOf(path)), path].map(p => this.display(p))
+      throw new CascError("import-cycle", `Import cycle: ${chain.join(" -> ")}`, span, fromFile)
+    }
+    let src: string
+    try {
+      src = this.readSource(path)
+    } catch {
+      throw new CascError("module-not-found", `Cannot find module '${spec}'`, span, fromFile)
+    }
+    const program = new Parser(src, path).parseProgram()
+    this.onLoad?.(program, src)
+    const record: ModuleRecord = { path, namespace: `${this.display(path)}::`, env: new Environment(this.globals), exports: new Set(), state: "loading" }
+    this.modules.set(path, record)
+    this.loading.push(path)
+    try {
+      execute(program, record)
+    } catch (e) {
+      // a module that failed to initialize is not cached
+      this.modules.delete(path)
+      throw e
+    } finally {
+      this.loading.pop()
+    }
+    record.state = "loaded"
+    return record
+  }
+
+  records(): Iterable<ModuleRecord> { return this.modules.values() }
+
+  private display(path: string): string {
+    return relative(this.rootDir, path) || path
+  }
+}
@@ -0,0 +1,127 @@
+import { CascError } from "../core/errors.js"
+import { DeletePolicy } from "../core/ast.js"
+import { Heap, HeapObject, ObjectId, ObjectRef, TypeSpec, WeakValue, isRef, isWeak } from "./heap.js"
+
+// Version of the snapshot layout below; snapshots of another version are refused.
+export const SNAPSHOT_VERSION = 1
+
+// Interpreter state written by `casc run --save` and read by `--restore`:
+// the heap, the struct types and the variables of the entry module. Code is
+// not saved; the restoring script declares its functions (and handlers) again.
+export interface Snapshot {
+  format: "casc-snapshot"
+  version: number
+  // ids are never reused, also across a save and restore
+  nextId: ObjectId
+  types: TypeSpec[]
+  objects: SavedObject[]
+  // child id -> "<parentId>.<field>" keys; compared with the graph rebuilt on load
+  incoming: Record<string, string[]>
+  globals: Record<string, any>
+}
+
+// Values are numbers, strings, bools, null, { ref: id } for live objects,
+// { deleted: id, type } for references to deleted ones, { weak: id } for weak
+// references, { struct: name } and { number: "NaN" | "Infinity" | "-Infinity" }.
+export interface SavedObject {
+  id: ObjectId
+  // heap type name ("__array__" for arrays, "__map__" for maps), null for untyped objects
+  type: string | null
+  fields: Record<string, any>
+  elements?: DeletePolicy
+  owner?: ObjectId
+  owns?: boolean
+}
+
+function fail(message: string): never {
+  throw new CascError("snapshot-error", message)
+}
+
+export function saveSnapshot(heap: Heap, globals: Map<string, any>): string {
+  const objects = heap.liveObjects().sort((a, b) => a.id - b.id)
+  const incoming: Record<string, string[]> = {}
+  for (const obj of objects) {
+    const keys = heap.incomingOf(obj.ref).map(({ parent, field }) => `${parent.id}.${field}`).sort()
+    if (keys.length) incoming[obj.id] = keys
+  }
+  const snapshot: Snapshot = {
+    format: "casc-snapshot",
+    version: SNAPSHOT_VERSION,
+    nextId: heap.nextObjectId,
+    types: heap.typeSpecs(),
+    objects: objects.map(obj => ({
+      id: obj.id,
+      type: obj.typeName ?? null,
+      fields: Object.fromEntries([...obj.fields].map(([k, v]) => [k, encode(v, `#${obj.id}.${k}`)])),
+      ...(obj.elements ? { elements: obj.elements } : {}),
+      ...(obj.owner !== undefined ? { owner: obj.owner } : {}),
+      ...(obj.owns ? { owns: true } : {}),
+    })),
+    incoming,
+    globals: Object.fromEntries([...globals].map(([name, v]) => [name, encode(v, `variable '${name}'`)])),
+  }
+  return JSON.stringify(snapshot, null, 2)
+}
+
+// Functions close over environments that are not part of the heap, so a
+// snapshot cannot hold them.
+function encode(v: any, where: string): any {
+  if (v === undefined || v === null) return null
+  if (typeof v === "number" && !Number.isFinite(v)) return { number: String(v) }
+  if (typeof v !== "object" && typeof v !== "function") return v
+  if (isRef(v)) return v.deleted ? { deleted: v.id, type: v.typeName ?? null } : { ref: v.id }
+  if (isWeak(v)) return v.target.deleted ? null : { weak: v.target.id }
+  if (v.kind === "struct") return { struct: v.name }
+  return fail(`Cannot save ${where}: function values cannot be saved in a snapshot`)
+}
+
+// Loads a snapshot into the (empty) heap and returns the saved variables.
+// The reverse graph is rebuilt from the object fields and must match the
+// saved one; the heap checks the remaining cascade invariants.
+export function loadSnapshot(heap: Heap, text: string): Map<string, any> {
+  let data: Snapshot
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    return fail(`Invalid snapshot: ${(e as Error).message}`)
+  }
+  if (data?.format !== "casc-snapshot") fail("Invalid snapshot: not a casc snapshot")
+  if (data.version !== SNAPSHOT_VERSION) fail(`Unsupported snapshot version ${data.version}, expected ${SNAPSHOT_VERSION}`)
+  const saved = new Map(data.objects.map(o => [o.id, o]))
+  const refs = new Map<ObjectId, ObjectRef>()
+  const decode = (v: any, where: string): any => {
+    if (v === null || typeof v !== "object") return v
+    if ("number" in v) return Number(v.number)
+    if ("weak" in v) return new WeakValue(decode({ ref: v.weak }, where))
+    if ("struct" in v) {
+      const sep = v.struct.lastIndexOf("::")
+      return { kind: "struct", name: v.struct, displayName: sep < 0 ? v.struct : v.struct.slice(sep + 2) }
+    }
+    const id = "ref" in v ? v.ref : v.deleted
+    if ("ref" in v && !saved.has(id)) fail(`Invalid snapshot: ${where} refers to missing object #${id}`)
+    let ref = refs.get(id)
+    if (!ref) {
+      ref = new ObjectRef(id, ("ref" in v ? saved.get(id)!.type : v.type) ?? undefined)
+      ref.deleted = !saved.has(id)
+      refs.set(id, ref)
+    }
+    return ref
+  }
+  const objects: HeapObject[] = data.objects.map(o => {
+    const ref = decode({ ref: o.id }, `object #${o.id}`)
+    const fields = new Map(Object.entries(o.fields).map(([k, v]) => [k, decode(v, `#${o.id}.${k}`)]))
+    return { id: o.id, ref, typeName: o.type ?? undefined, fields, elements: o.elements, owner: o.owner, owns: o.owns }
+  })
+  const rebuilt = new Map<string, string[]>()
+  for (const obj of objects) {
+    for (const [k, v] of obj.fields) if (isRef(v) && !v.deleted) rebuilt.set(String(v.id), [...rebuilt.get(String(v.id)) ?? [], `${obj.id}.${k}`])
+  }
+  for (const id of new Set([...rebuilt.keys(), ...Object.keys(data.incoming)])) {
+    const actual = (rebuilt.get(id) ?? []).sort().join(", ")
+    const stored = [...data.incoming[id] ?? []].sort().join(", ")
+    if (actual !== stored) fail(`Invalid snapshot: references to #${id} are [${actual}] but the saved reverse graph has [${stored}]`)
+  }
+  const globals = new Map(Object.entries(data.globals).map(([name, v]) => [name, decode(v, `variable '${name}'`)]))
+  heap.load(data.nextId, data.types, objects)
+  return globals
+}
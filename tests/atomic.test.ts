@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run } from "./helpers.js"
+
+const model = `
+struct Leaf { mandatory id, optional note, }
+struct Node { mandatory dep, optional name, }
+let l = new Leaf { id: 1 }
+let a = new Node { dep: l, name: 1 }
+let b = new Node { dep: a, name: 2 }
+`
+
+describe("wouldCascade", () => {
+  it("lists the objects a null store would delete without deleting them", () => {
+    const src = model + `
+let w = wouldCascade(l.id)
+println(len(w), w[0] == l, w[1] == a, w[2] == b)
+println(len(wouldCascade(l.note)), len(wouldCascade(a)), l, b)
+`
+    expect(run(src)).toEqual(["3 true true true", "0 2 [Object#1] [Object#3]"])
+  })
+})
+
+describe("atomic blocks", () => {
+  it("rolls back cascades on abort", () => {
+    const src = model + `
+let made = null
+atomic {
+  made = new Leaf { id: 5 }
+  a.name = 10
+  l.id = null
+  println(l, b)
+  abort
+  println("unreachable")
+}
+println(l, a, b, made, a.name, b.dep.dep.id)
+`
+    expect(run(src)).toEqual(["[Deleted#1] [Deleted#3]", "[Object#1] [Object#2] [Object#3] [Deleted#4] 1 1"])
+  })
+
+  it("keeps the changes of a block that completes", () => {
+    expect(run(model + "atomic { a.name = 3 }\nprintln(a.name)")).toEqual(["3"])
+  })
+
+  it("rolls back and rethrows on an uncaught error, even across calls", () => {
+    const interp = new Interpreter()
+    run(model, { interp })
+    const fails = `
+fn fail() { l.id = null; assert(false, "boom") }
+atomic { a.name = 5; fail() }
+`
+    expect(() => run(fails, { interp })).toThrow(/boom/)
+    expect(run("println(l, b, a.name, len(wouldCascade(l.id)))", { interp })).toEqual(["[Object#1] [Object#3] 1 3"])
+  })
+
+  it("restores only the innermost block on a nested abort", () => {
+    const src = model + `
+atomic {
+  a.name = 4
+  atomic { a.name = 5; abort }
+  println(a.name)
+}
+println(a.name)
+`
+    expect(run(src)).toEqual(["4", "4"])
+  })
+
+  it("rejects abort outside an atomic block", () => {
+    expect(() => run("abort")).toThrow(/abort outside of an atomic block/)
+  })
+})
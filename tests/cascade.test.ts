@@ -1,13 +1,6 @@
 import { describe, it, expect } from "vitest"
-import { Parser } from "../src/core/parser.js"
-import { Interpreter } from "../src/runtime/interpreter.js"
-
-function run(src: string) {
-  const parser = new Parser(src)
-  const ast = parser.parseProgram()
-  const interp = new Interpreter()
-  interp.run(ast)
-}
+import { formatCascadeTrace } from "../src/runtime/heap.js"
+import { run, runError } from "./helpers.js"
 
 describe("cascade semantics", () => {
   it("deletes object when mandatory field set to null", () => {
@@ -17,8 +10,157 @@ let a = new N { id: 1 }
 let b = new N { id: 2 }
 a.next = b
 b.id = null
+print(a.next)
+print(b)
+`
+    expect(run(src)).toEqual(["null", "[Deleted#2]"])
+  })
+})
+
+describe("object references", () => {
+  it("does not treat numbers that match a live object id as references", () => {
+    const src = `
+struct N { mandatory id, optional next, }
+let a = new N { id: 1 }
+let b = new N { id: 2 }
+let x = 1
+b.next = x
+a.id = null
+print(b.next)
+print(x)
+print(b)
+`
+    expect(run(src)).toEqual(["1", "1", "[Object#2]"])
+  })
+
+  it("compares references by identity", () => {
+    const src = `
+struct N { optional next, }
+let a = new N {}
+let b = new N { next: a }
+println(b.next == a, b.next == 1)
+`
+    expect(run(src)).toEqual(["true false"])
+  })
+})
+
+describe("delete statement", () => {
+  it("deletes an object and cascades through mandatory references", () => {
+    const src = `
+struct Tag { optional name, }
+struct Item { mandatory tag, }
+let t = new Tag { name: 1 }
+let i = new Item { tag: t }
+println(isAlive(t), typeOf(t), idOf(i), typeOf([]), typeOf(1), typeOf(null))
+delete t
+println(isAlive(t), isDeleted(i), typeOf(i), idOf(i), explainLastCascade().cause)
+`
+    expect(run(src)).toEqual(['true "Tag" 2 "array" "number" "null"', 'false true "Item" 2 "deleted explicitly"'])
+  })
+
+  it("raises deleted-object errors through deleted references", () => {
+    const setup = `
+struct N { mandatory id, optional next, }
+let a = new N { id: 1 }
+let xs = [a]
+delete a
+delete xs
+`
+    const cases: [string, string][] = [
+      ["println(a.id)", "Cannot read 'id' of deleted object #1"],
+      ["a.next = null", "Cannot modify deleted object #1"],
+      ["println(xs[0])", "Cannot index deleted array #2"],
+      ["xs[0] = 1", "Cannot modify deleted array #2"],
+      ["delete a", "Object #1 is already deleted"],
+    ]
+    for (const [line, message] of cases) {
+      const error = runError(setup + line)
+      expect([error.code, error.message]).toEqual(["deleted-object", message])
+    }
+  })
+})
+
+describe("array elements", () => {
+  it("tracks elements stored by index", () => {
+    const src = `
+struct N { mandatory id, }
+let a = new N { id: 1 }
+let b = new N { id: 2 }
+let xs = [a]
+xs[0] = b
+xs[2] = a
+a.id = null
+b.id = null
+println(len(xs), xs[0], xs[1], xs[2])
+`
+    expect(run(src)).toEqual(["3 null null null"])
+  })
+
+  it("cascades from a deleted element of a [T]! field to the owner", () => {
+    const src = `
+struct Item { mandatory id, }
+struct Order { mandatory items: [Item]!, }
+struct Bag { optional items: [Item], }
+let a = new Item { id: 1 }
+let b = new Item { id: 2 }
+let o = new Order { items: [a, b] }
+let bag = new Bag { items: [a, b] }
+println(len(wouldCascade(b.id)))
+b.id = null
+println(o, len(bag.items), bag.items[1])
 `
-    run(src)
+    expect(run(src)).toEqual(["3", "[Deleted#3] 2 null"])
+  })
+
+  it("removes deleted elements of a [T]!(compact) field", () => {
+    const src = `
+struct Item { mandatory id, }
+struct Cart { mandatory items: [Item]!(compact), }
+let a = new Item { id: 1 }
+let b = new Item { id: 2 }
+let c = new Item { id: 3 }
+let cart = new Cart { items: [a, b, c] }
+b.id = null
+println(cart, len(cart.items), cart.items[0].id, cart.items[1].id)
+cart.items[0] = null
+println(len(cart.items), cart.items[0].id)
+c.id = null
+println(len(cart.items))
+`
+    expect(run(src)).toEqual(["[Object#4] 2 1 3", "1 3", "0"])
   })
 })
 
+describe("cascade traces", () => {
+  const src = `
+struct Leaf { mandatory id, }
+struct Node { mandatory dep, }
+let l = new Leaf { id: 1 }
+let a = new Node { dep: l }
+let b = new Node { dep: a }
+let c = new Node { dep: a }
+l.id = null
+`
+
+  it("reports the deletion tree to the embedder", () => {
+    const traces: string[] = []
+    run(src, { onCascade: trace => traces.push(...formatCascadeTrace(trace)) })
+    expect(traces).toEqual([
+      "#1 Leaf: mandatory field id set null",
+      "  #2 Node: mandatory ref to #1 deleted (field dep)",
+      "    #3 Node: mandatory ref to #2 deleted (field dep)",
+      "    #4 Node: mandatory ref to #2 deleted (field dep)",
+    ])
+  })
+
+  it("returns the last cascade from explainLastCascade()", () => {
+    const explain = `
+let t = explainLastCascade()
+println(t.objectId, t.typeName, t.cause)
+let dep = t.children[0]
+println(dep.objectId, dep.cause, dep.field, len(dep.children))
+`
+    expect(run(src + explain)).toEqual(['1 "Leaf" "mandatory field id set null"', '2 "mandatory ref to #1 deleted" "dep" 2'])
+    expect(run("println(explainLastCascade())")).toEqual(["null"])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { checkCascades } from "../src/analysis/cascade.js"
+
+function check(src: string) {
+  return checkCascades(new Parser(src, "test.casc").parseProgram())
+}
+
+describe("static cascade analysis", () => {
+  it("warns on null stored into mandatory fields", () => {
+    const { diagnostics } = check(`
+struct Node { mandatory id, optional next, }
+let a = new Node { id: 1 }
+a.next = null
+a.id = null
+let b = new Node { id: null }
+`)
+    const warnings = diagnostics.filter(d => d.severity === "warning")
+    expect(warnings.map(d => [d.code, d.span?.line, d.span?.column])).toEqual([
+      ["mandatory-null", 5, 6],
+      ["mandatory-null", 6, 24],
+    ])
+    expect(warnings[0].file).toBe("test.casc")
+  })
+
+  it("warns on mandatory fields left out of a literal", () => {
+    const { diagnostics } = check(`
+struct Node { mandatory id, mandatory(nullify) tag, optional next, }
+let a = new Node {}
+let b = new Node { id: 1 }
+`)
+    const warnings = diagnostics.filter(d => d.severity === "warning")
+    expect(warnings.map(d => [d.code, d.span?.line, d.message])).toEqual([
+      ["mandatory-null", 3, "Mandatory field 'id' of Node is left out of the literal and stays null"],
+    ])
+  })
+
+  it("follows functions that may return null", () => {
+    const { diagnostics } = check(`
+struct Node { mandatory id, }
+struct Holder { mandatory node, }
+fn find(n) {
+  if (n > 0) return new Node { id: n }
+}
+fn always() { return new Node { id: 1 } }
+let h = new Holder { node: always() }
+h.node = find(2)
+`)
+    const warnings = diagnostics.filter(d => d.severity === "warning")
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].message).toContain("may be null")
+    expect(warnings[0].span?.line).toBe(9)
+  })
+
+  it("does not warn when the stored value is never null", () => {
+    const { diagnostics } = check(`
+struct Node { mandatory id, }
+let v = 1
+let n = new Node { id: v }
+n.id = v
+`)
+    expect(diagnostics.filter(d => d.severity === "warning")).toEqual([])
+  })
+
+  it("computes the blast radius of each struct type", () => {
+    const { blastRadius } = check(`
+struct Doc { mandatory title, }
+struct Section { mandatory doc, }
+struct Para { mandatory section, }
+struct Note { optional para, }
+let d = new Doc { title: "t" }
+let s = new Section { doc: d }
+let p = new Para { section: s }
+let n = new Note { para: p }
+`)
+    expect(blastRadius.get("Doc")).toEqual(["Para", "Section"])
+    expect(blastRadius.get("Section")).toEqual(["Para"])
+    expect(blastRadius.get("Note")).toEqual([])
+  })
+})
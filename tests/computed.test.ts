@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { checkTypes } from "../src/analysis/types.js"
+import { formatCascadeTrace } from "../src/runtime/heap.js"
+import { run } from "./helpers.js"
+
+const line = `
+struct Line {
+  mandatory price: number,
+  mandatory qty: number,
+  computed total = self.price * self.qty,
+  invariant self.qty >= 0,
+}
+`
+
+describe("computed fields and invariants", () => {
+  it("evaluates computed fields on every read", () => {
+    expect(run(line + `
+      let l = new Line { price: 3, qty: 2 }
+      println(l.total)
+      l.qty = 5
+      println(l.total)
+    `)).toEqual(["6", "15"])
+  })
+
+  it("rejects writes that break an invariant and undoes them", () => {
+    expect(() => run(line + `let l = new Line { price: 3, qty: 2 }\nl.qty = -1`)).toThrow("Invariant of Line declared at line 6 violated")
+    expect(() => run(line + `let l = new Line { price: 3, qty: -1 }`)).toThrow("Invariant of Line declared at line 6 violated")
+    const interp = new Interpreter()
+    run(line + `let l = new Line { price: 3, qty: 2 }`, { interp })
+    let error: any
+    try { run(`l.qty = -4`, { interp }) } catch (e) { error = e }
+    expect(error).toMatchObject({ code: "invariant", span: { line: 1, column: 3 } })
+    expect(run(`println(l.qty, len(all(Line)))`, { interp })).toEqual(["2 1"])
+    expect(() => run(line + `let l = new Line { price: 3, qty: 2 }\nl.total = 1`)).toThrow("Cannot assign computed field 'total'")
+  })
+
+  it("cascade-deletes objects whose `else delete` invariant fails", () => {
+    const traces: string[][] = []
+    const interp = new Interpreter({ verifyHeap: true, onCascade: t => traces.push(formatCascadeTrace(t)) })
+    expect(run(`
+      struct Stock { mandatory qty, invariant self.qty >= 0 else delete, }
+      struct Order { mandatory stock, }
+      let s = new Stock { qty: 1 }
+      let o = new Order { stock: s }
+      s.qty = s.qty - 1
+      println(isAlive(s))
+      s.qty = -1
+      println(isAlive(s), isAlive(o))
+    `, { interp })).toEqual(["true", "false false"])
+    expect(traces).toEqual([["#1 Stock: invariant violated (field qty)", "  #2 Order: mandatory ref to #1 deleted (field stock)"]])
+  })
+
+  it("type-checks rules against self and rejects computed targets", () => {
+    const codes = (src: string) => checkTypes(new Parser(src).parseProgram()).diagnostics.map(d => d.code)
+    expect(codes(line + `let l = new Line { price: 1, qty: 1 }\nlet t: number = l.total`)).toEqual([])
+    expect(codes(`struct A { mandatory n: number, invariant self.m > 0, }`)).toEqual(["unknown-field"])
+    expect(codes(line + `let l = new Line { price: 1, qty: 1, total: 2 }`)).toEqual(["invalid-target"])
+  })
+
+  it("keeps the locals rules declared in a function read", () => {
+    expect(run(`
+      struct Rate { mandatory pct, }
+      fn setup() {
+        let rate = new Rate { pct: 2 }
+        struct Line { mandatory qty, computed total = self.qty * rate.pct, invariant self.qty < rate.pct * 10, }
+        return new Line { qty: 3 }
+      }
+      let l = setup()
+      gc()
+      println(l.total)
+      l.qty = 4
+      println(l.total)
+    `)).toEqual(["6", "8"])
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run } from "./helpers.js"
+
+function interp(src: string): Interpreter {
+  const interp = new Interpreter()
+  run(src, { interp })
+  return interp
+}
+
+const src = `
+struct Para { optional text, }
+struct Doc { mandatory title, owned paras: [Para], restrict pin, weak seen, }
+let p = new Para { text: "hi" }
+let alias = p
+let d = new Doc { title: 1, paras: [p], pin: p }
+`
+
+describe("heap dumps", () => {
+  it("writes a stable JSON document", () => {
+    const dump = JSON.parse(interp(src).dumpHeap("json"))
+    expect(dump.version).toBe(1)
+    expect(dump.types.find((t: any) => t.name === "Doc").fields).toEqual([
+      { name: "title", optional: false, policy: "cascade", owned: false, weak: false },
+      { name: "paras", optional: false, policy: "cascade", owned: true, weak: false },
+      { name: "pin", optional: true, policy: "restrict", owned: false, weak: false },
+      { name: "seen", optional: true, policy: "nullify", owned: false, weak: true },
+    ])
+    expect(dump.objects).toEqual([
+      { id: 1, type: "Para", roots: ["alias", "p"], owner: 3, fields: { text: "hi" } },
+      { id: 2, type: "Doc", roots: ["d"], owner: null, fields: { title: 1, paras: { ref: 3 }, pin: { ref: 1 } } },
+      { id: 3, type: "array", roots: [], owner: 2, fields: { 0: { ref: 1 }, length: 1 } },
+    ])
+    expect(dump.edges).toEqual([
+      { from: 2, field: "paras", to: 3, policy: "cascade", mandatory: true, owned: true },
+      { from: 2, field: "pin", to: 1, policy: "restrict", mandatory: false, owned: false },
+      { from: 3, field: "0", to: 1, policy: "nullify", mandatory: false, owned: true },
+    ])
+  })
+
+  it("draws mandatory and optional edges differently", () => {
+    const dot = interp(src).dumpHeap("dot")
+    expect(dot).toContain('n2 -> n3 [label="paras", style=bold, arrowtail=diamond, dir=both];')
+    expect(dot).toContain('n2 -> n1 [label="pin (restrict)", style=dashed];')
+    expect(dot).toContain('"root:alias" -> n1 [style=dotted];')
+    const mermaid = interp(src).dumpHeap("mermaid")
+    expect(mermaid).toContain('n2 ==>|"paras owned"| n3')
+    expect(mermaid).toContain('n2 -.->|"pin (restrict)"| n1')
+  })
+
+  it("is available as a builtin", () => {
+    expect(() => interp(src + `assert(typeOf(dumpHeap("dot")) == "string")`)).not.toThrow()
+    expect(() => interp(`dumpHeap("svg")`)).toThrow(/Unknown heap dump format 'svg'/)
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest"
+import { formatError } from "../src/core/errors.js"
+import { runError } from "./helpers.js"
+
+describe("located errors", () => {
+  it("reports syntax errors with file, line and column", () => {
+    const err = runError("let x = (1 + 2\nprint(x)")
+    expect(err.code).toBe("syntax")
+    expect(err.file).toBe("test.casc")
+    expect(err.span).toEqual({ line: 2, column: 1 })
+  })
+
+  it("reports runtime errors at the offending expression", () => {
+    const err = runError("let a = 1\nprint(a.b)")
+    expect(err.code).toBe("not-an-object")
+    expect(err.span).toEqual({ line: 2, column: 9 })
+  })
+
+  it("locates errors raised by builtins at the call site", () => {
+    const err = runError("let ok = 1\n  assert(false, \"nope\")")
+    expect(err.code).toBe("assertion")
+    expect(err.span).toEqual({ line: 2, column: 3 })
+  })
+
+  it("formats the source line with a caret", () => {
+    const src = "let a = 1\nlet b = foo(a)"
+    expect(formatError(runError(src), src)).toBe([
+      "test.casc:2:9: error[undefined-variable]: Undefined variable foo",
+      "  2 | let b = foo(a)",
+      "    |         ^",
+    ].join("\n"))
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest"
+import { formatError } from "../src/core/errors.js"
+import { run, runError } from "./helpers.js"
+
+describe("exceptions", () => {
+  it("catches thrown values and runtime errors", () => {
+    expect(run(`
+      try { throw "boom" } catch (e) { println(e) }
+      fn inner() { return nope + 1 }
+      fn outer() { return inner() }
+      try { outer() } catch (e) {
+        println(e.code, e.message)
+        for (f in e.stack) println(f)
+      }
+      try { assert(false, "x") } catch (e) { println(e.code) }
+    `)).toEqual([
+      `"boom"`,
+      `"undefined-variable" "Undefined variable nope"`,
+      `"inner (test.casc:3:27)"`,
+      `"outer (test.casc:4:27)"`,
+      `"<main> (test.casc:5:13)"`,
+      `"assertion"`,
+    ])
+  })
+
+  it("runs finally however the block ends", () => {
+    expect(run(`
+      fn f() {
+        try { return 1 } finally { println("finally") }
+      }
+      fn g() {
+        try { throw 1 } finally { return 2 }
+      }
+      println(f(), g())
+      for (let i = 0; i < 3; i = i + 1) {
+        try { if (i == 1) break } finally { println(i) }
+      }
+      try {
+        try { throw "inner" } finally { println("cleanup") }
+      } catch (e) { println(e) }
+    `)).toEqual([`"finally"`, "1 2", "0", "1", `"cleanup"`, `"inner"`])
+  })
+
+  it("does not catch abort, and atomic blocks roll back before catch runs", () => {
+    expect(run(`
+      struct Node { optional next, }
+      let n = new Node {}
+      atomic { try { abort } catch (e) { println("caught") } finally { println("finally") } }
+      try { atomic { n.next = new Node {}  throw "fail" } } catch (e) { println(e, n.next) }
+    `)).toEqual([`"finally"`, `"fail" null`])
+  })
+
+  it("keeps a value thrown out of an atomic block alive for the outer catch", () => {
+    expect(run(`
+      struct Err { optional message, optional cause, }
+      struct Node { optional next, }
+      let n = new Node {}
+      try {
+        atomic {
+          n.next = new Node {}
+          throw new Err { message: "x", cause: new Err { message: "y" } }
+        }
+      } catch (e) { println(e.message, e.cause.message, n.next) }
+    `)).toEqual([`"x" "y" null`])
+  })
+
+  it("keeps the deletions of a cascade whose handler throws", () => {
+    expect(run(`
+      struct Team { optional name, }
+      struct Player { mandatory team, on delete(self) { throw self.name }, optional name, }
+      let t = new Team {}
+      let a = new Player { team: t, name: "a" }
+      let b = new Player { team: t, name: "b" }
+      try { delete t } catch (e) { println(e) }
+      println(isDeleted(a), isDeleted(b))
+    `)).toEqual([`"a"`, "true true"])
+  })
+
+  it("undoes a write whose invariant raises an error", () => {
+    expect(run(`
+      fn check(v) { if (v < 0) throw "negative" return true }
+      struct Acct { mandatory balance, invariant check(self.balance), }
+      let a = new Acct { balance: 1 }
+      try { a.balance = -1 } catch (e) { println(e, a.balance) }
+    `)).toEqual([`"negative" 1`])
+  })
+
+  it("reports uncaught errors with their stack", () => {
+    const src = `fn f() {\n  throw new Err { message: "bad" }\n}\nstruct Err { optional message, }\nf()`
+    const err = runError(src)
+    expect(err.code).toBe("thrown")
+    expect(formatError(err, src)).toBe([
+      "test.casc:2:3: error[thrown]: Uncaught error: bad",
+      "  2 |   throw new Err { message: \"bad\" }",
+      "    |   ^",
+      "    at f (test.casc:2:3)",
+      "    at <main> (test.casc:5:1)",
+    ].join("\n"))
+    expect(runError(`fn r(n) { return r(n + 1) }\nr(0)`).code).toBe("stack-overflow")
+  })
+})
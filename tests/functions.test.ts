@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { checkTypes, typeToString } from "../src/analysis/types.js"
+import { run as runScript } from "./helpers.js"
+
+// collects after every allocation, so values only a builtin holds would be freed
+const run = (src: string) => runScript(src, { gcThreshold: 1 })
+
+describe("function values", () => {
+  it("creates closures with fn expressions", () => {
+    expect(run(`
+      fn counter() {
+        let n = 0
+        return fn () { n = n + 1  return n }
+      }
+      let c = counter()
+      c()
+      let twice = fn (f, x) => f(f(x))
+      println(c(), twice(fn (x) => x * 3, 2))
+      fn (x) => x
+    `)).toEqual(["2 18"])
+  })
+
+  it("runs the array builtins on callbacks", () => {
+    expect(run(`
+      struct P { mandatory name, mandatory age, }
+      let ps = [new P { name: "b", age: 30 }, new P { name: "a", age: 20 }, new P { name: "c", age: 40 }]
+      println(len(map(ps, fn (p) => p.age)), reduce(map(ps, fn (p) => p.age), fn (a, b) => a + b))
+      println(len(filter(ps, fn (p) => p.age > 25)), find(ps, fn (p) => p.age == 20).name, find(ps, fn (p) => false))
+      forEach(sortBy(ps, fn (p) => p.name), fn (p, i) => println(i, p.name))
+      println(reduce([1, 2, 3], fn (acc, x) => acc * x, 10), map([1, 2], len)[0])
+    `)).toEqual(["3 90", `2 "a" null`, `0 "a"`, `1 "b"`, `2 "c"`, "60 0"])
+  })
+
+  it("skips elements a callback deleted and stores null for them in results", () => {
+    expect(run(`
+      struct T { optional name, }
+      let a = new T { name: "a" }
+      let b = new T { name: "b" }
+      let c = new T { name: "c" }
+      let seen = map([a, b, c], fn (t) {
+        if (t == a) delete b
+        if (t == c) delete a
+        return t
+      })
+      println(len(seen), seen[0], seen[1].name)
+    `)).toEqual([`2 null "c"`])
+  })
+
+  it("dispatches methods on the struct of the object", () => {
+    expect(run(`
+      struct Node { optional next, }
+      fn Node.depth(self, start) {
+        if (self.next == null) return start
+        return self.next.depth(start + 1)
+      }
+      struct Box { optional f, }
+      let n = new Node { next: new Node { next: new Node {} } }
+      let box = new Box { f: fn (x) => x + 1 }
+      println(n.depth(10), box.f(1))
+    `)).toEqual(["12 2"])
+    expect(() => run(`struct N { optional size, }\nfn N.size(self) { return 1 }`)).toThrow(/Method 'size' clashes with a field of N/)
+  })
+
+  it("keeps the locals of the function a method was declared in", () => {
+    expect(run(`
+      struct C { mandatory v, }
+      struct Node { optional next, }
+      fn setup() {
+        let cache = new C { v: 41 }
+        fn Node.get(self) { return cache.v + 1 }
+      }
+      setup()
+      let n = new Node {}
+      gc()
+      println(n.get())
+    `)).toEqual(["42"])
+  })
+
+  it("types fn expressions, methods and builtin results", () => {
+    const ast = new Parser(`
+      struct P { mandatory age: number, }
+      fn P.older(self, years: number): P { return new P { age: self.age + years } }
+      let double = fn (x: number) => x * 2
+      let ages = map([new P { age: 1 }], fn (p: P) => p.age)
+      let p = new P { age: 3 }.older(1)
+      let first = find(ages, fn (a) => a > 1)
+      p.older("x")
+    `).parseProgram()
+    const { diagnostics, types } = checkTypes(ast)
+    const letType = (i: number) => typeToString(types.get((ast.statements[i] as any).value)!)
+    expect([letType(2), letType(3), letType(4), letType(5)]).toEqual(["fn(number) -> number", "[number]", "P", "number?"])
+    expect(diagnostics.map(d => d.code)).toEqual(["type-mismatch"])
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest"
+import { run } from "./helpers.js"
+
+describe("garbage collection", () => {
+  it("frees objects no longer reachable from any environment", () => {
+    const src = `
+struct N { mandatory id, optional next, }
+let a = new N { id: 1, next: new N { id: 2 } }
+let b = new N { id: 3 }
+a = null
+let s = gc()
+println(s.freed, s.live)
+println(b.id)
+`
+    expect(run(src, { gcThreshold: 0 })).toEqual(["2 1", "3"])
+  })
+
+  it("keeps closures, call arguments and locals of active frames alive", () => {
+    const src = `
+struct N { mandatory id, }
+fn make(x) {
+  let local = new N { id: x }
+  fn get() { return local }
+  return get
+}
+fn check(n, g) {
+  let s = gc()
+  return n.id + g().id
+}
+println(check(new N { id: 1 }, make(2)))
+`
+    expect(run(src, { gcThreshold: 0 })).toEqual(["3"])
+  })
+
+  it("runs automatically once the allocation threshold is reached", () => {
+    const src = `
+struct N { mandatory id, }
+let keep = new N { id: 0 }
+let i = 0
+while (i < 50) {
+  let tmp = new N { id: i }
+  i = i + 1
+}
+println(len(all(N)))
+let s = gc()
+println(s.freed, s.live, keep.id)
+`
+    // without automatic collection all 50 temporaries would still be there
+    expect(run(src, { gcThreshold: 0 })).toEqual(["51", "51 1 0"])
+    expect(run(src, { gcThreshold: 10 })).toEqual(["3", "3 1 0"])
+  })
+
+  it("does not cascade into live parents", () => {
+    const src = `
+struct N { mandatory id, optional next, }
+let a = new N { id: 1, next: new N { id: 2 } }
+let s = gc()
+println(s.freed, a.next.id)
+a.next.id = null
+println(a.next)
+`
+    expect(run(src, { gcThreshold: 0 })).toEqual(["0 2", "null"])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest"
+import { CascError } from "../src/core/errors.js"
+import { run } from "./helpers.js"
+
+const chain = `
+struct Root { optional name, }
+struct Node {
+  mandatory parent,
+  optional name,
+  on delete(self, reason) {
+    println(self.name, reason.cause, reason.field)
+  }
+}
+let r = new Root { name: 0 }
+let a = new Node { parent: r, name: 1 }
+let b = new Node { parent: a, name: 2 }
+let c = new Node { parent: b, name: 3 }
+`
+
+describe("on delete handlers", () => {
+  it("run right after the triggering statement, in cascade order", () => {
+    const src = chain + `
+fn drop() {
+  a.parent = null
+  println("dropped")
+}
+drop()
+println("done")
+`
+    expect(run(src)).toEqual(['1 "field" "parent"', '2 "ref" "parent"', '3 "ref" "parent"', '"dropped"', '"done"'])
+  })
+
+  it("passes the deleted child in the reason", () => {
+    const src = `
+struct Leaf { mandatory id, }
+struct Holder {
+  mandatory leaf,
+  on delete(self, reason) { println(reason.child == self.leaf, reason.child) }
+}
+let l = new Leaf { id: 1 }
+let h = new Holder { leaf: l }
+l.id = null
+`
+    expect(run(src)).toEqual(["true [Deleted#1]"])
+  })
+
+  it("queues cascades started by a handler behind pending ones", () => {
+    const src = `
+struct Log { mandatory id, }
+let log = new Log { id: 1 }
+struct Watch { mandatory log, optional name, on delete(self, reason) { println("watch", self.name) } }
+let w = new Watch { log: log, name: 9 }
+struct Node {
+  mandatory parent,
+  optional name,
+  on delete(self, reason) {
+    println("node", self.name)
+    if (self.name == 1) log.id = null
+  }
+}
+struct Root { optional name, }
+let r = new Root { name: 0 }
+let a = new Node { parent: r, name: 1 }
+let b = new Node { parent: a, name: 2 }
+a.parent = null
+`
+    expect(run(src)).toEqual(['"node" 1', '"node" 2', '"watch" 9'])
+  })
+
+  it("rejects writes to the deleted object", () => {
+    const src = `
+struct N { mandatory id, optional note, on delete(self, reason) { self.note = 1 } }
+let n = new N { id: 1 }
+n.id = null
+`
+    expect(() => run(src)).toThrow(CascError)
+    try { run(src) } catch (e: any) { expect([e.code, e.span.line]).toEqual(["deleted-object", 2]) }
+  })
+
+  it("rejects storing the deleted object", () => {
+    const src = `
+struct Box { optional item, }
+let box = new Box {}
+struct N { mandatory id, on delete(self, reason) { box.item = self } }
+let n = new N { id: 1 }
+n.id = null
+`
+    expect(() => run(src)).toThrow(/Cannot store a reference to deleted object #2/)
+  })
+
+  it("runs the handlers of a cascade whose statement then fails", () => {
+    expect(run(`
+      struct S { mandatory id, on delete(self, reason) { println("deleted", reason.cause) }, }
+      try { println(new S { id: null }.id) } catch (e) { println("caught") }
+      println(len(all(S)))
+    `)).toEqual([`"deleted" "field"`, `"caught"`, "0"])
+  })
+
+  it("keeps the value being returned alive while handlers collect", () => {
+    const src = `
+struct P { optional name, }
+struct N { mandatory id, on delete(self) { let junk = [new P {}, new P {}] } }
+fn f() { return [new P { name: "kept" }, isAlive(new N { id: null })] }
+println(f()[0].name)
+`
+    expect(run(src, { gcThreshold: 1 })).toEqual(['"kept"'])
+  })
+
+  it("keeps the locals a handler declared in a function reads", () => {
+    const src = `
+struct Log { optional last, }
+fn setup() {
+  let log = new Log {}
+  struct N { mandatory id, on delete(self) { log.last = self.id  println(log.last) } }
+  return new N { id: 7 }
+}
+let n = setup()
+gc()
+n.id = null
+`
+    expect(run(src)).toEqual(["7"])
+  })
+})
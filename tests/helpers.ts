@@ -0,0 +1,41 @@
+import { vi } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { CascError } from "../src/core/errors.js"
+import { Interpreter, InterpreterOptions } from "../src/runtime/interpreter.js"
+
+export interface RunOptions extends InterpreterOptions {
+  // runs in this interpreter instead of a new one; its top-level scope is
+  // kept across calls, as in the REPL
+  interp?: Interpreter
+}
+
+// The lines `fn` prints with console.log.
+export function capture(fn: () => void): string[] {
+  const out: string[] = []
+  const spy = vi.spyOn(console, "log").mockImplementation((...args: any[]) => { out.push(args.join(" ")) })
+  try {
+    fn()
+  } finally {
+    spy.mockRestore()
+  }
+  return out
+}
+
+// Runs `src` as test.casc and returns what it printed. A new interpreter
+// verifies the heap after every statement unless told otherwise.
+export function run(src: string, options: RunOptions = {}): string[] {
+  const { interp, ...interpreterOptions } = { verifyHeap: true, ...options }
+  const program = new Parser(src, "test.casc").parseProgram()
+  return capture(() => interp ? interp.evaluate(program) : new Interpreter(interpreterOptions).run(program))
+}
+
+// The error `src` fails with.
+export function runError(src: string, options: RunOptions = {}): CascError {
+  try {
+    run(src, options)
+  } catch (e) {
+    if (e instanceof CascError) return e
+    throw e
+  }
+  throw new Error("expected an error")
+}
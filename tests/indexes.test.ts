@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run as runScript } from "./helpers.js"
+
+function run(src: string): { out: string[]; interp: Interpreter } {
+  const interp = new Interpreter({ verifyHeap: true })
+  return { out: runScript(src, { interp }), interp }
+}
+
+const users = `
+struct Team { mandatory name, }
+struct User { mandatory unique id, optional indexed team, optional(nullify) unique email, }
+let red = new Team { name: "red" }
+let blue = new Team { name: "blue" }
+let a = new User { id: 1, team: red, email: "a@x" }
+let b = new User { id: 2, team: red }
+let c = new User { id: 3, team: blue }
+`
+
+describe("unique and indexed fields", () => {
+  it("finds objects by unique and indexed fields", () => {
+    const { out } = run(users + `
+      println(findBy(User, "id", 2) == b, findBy(User, "id", 9))
+      println(len(findBy(User, "team", red)), findBy(User, "team", red)[1] == b, len(all(User)))
+      b.id = 20
+      println(findBy(User, "id", 2), findBy(User, "id", 20) == b)
+    `)
+    expect(out).toEqual(["true null", "2 true 3", "null true"])
+  })
+
+  it("rejects duplicate unique values", () => {
+    expect(() => run(users + `b.email = "a@x"`)).toThrow("Duplicate value \"a@x\" for unique field User.email, already held by #3")
+    expect(() => run(users + `let d = new User { id: 3 }`)).toThrow(/already held by #5/)
+    const { out } = run(users + `
+      b.email = "b@x"
+      a.email = null
+      b.email = "a@x"
+      println(findBy(User, "email", "a@x") == b, findBy(User, "email", "b@x"))
+    `)
+    expect(out).toEqual(["true null"])
+  })
+
+  it("drops index entries when a cascade deletes or nulls", () => {
+    const { out } = run(users + `
+      red.name = null
+      println(len(all(User)), len(findBy(User, "team", red)), isAlive(a))
+      delete c
+      println(len(all(User)), findBy(User, "id", 3))
+      let d = new User { id: 3 }
+      println(findBy(User, "id", 3) == d)
+    `)
+    expect(out).toEqual(["3 0 true", "2 null", "true"])
+  })
+
+  it("does not list objects whose construction failed", () => {
+    const { out } = run(users + `
+      atomic { let d = new User { id: 4 } abort }
+      println(len(all(User)), findBy(User, "id", 4))
+    `)
+    expect(out).toEqual(["3 null"])
+    const interp = new Interpreter()
+    interp.evaluate(new Parser(users).parseProgram())
+    expect(() => interp.evaluate(new Parser(`let d = new User { email: 5, id: 1 }`).parseProgram())).toThrow(/Duplicate value 1/)
+    expect(interp.evaluate(new Parser(`findBy(User, "email", 5)`).parseProgram())).toBe(null)
+    expect(interp.heap.verify()).toEqual([])
+  })
+
+  it("requires an indexed field", () => {
+    expect(() => run(users + `findBy(Team, "name", "red")`)).toThrow("Field Team.name is not unique or indexed")
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { checkTypes } from "../src/analysis/types.js"
+import { run } from "./helpers.js"
+
+describe("loops", () => {
+  it("runs for loops with break, continue and labels", () => {
+    expect(run(`
+      let total = 0
+      for (let i = 0; i < 10; i = i + 1) {
+        if (i == 2) continue
+        if (i == 5) break
+        total = total + i
+      }
+      println(total)
+      outer: for (let i = 0; i < 3; i = i + 1) {
+        let j = 0
+        while (true) {
+          j = j + 1
+          if (j > i) continue outer
+          if (i == 2) break outer
+        }
+      }
+      let n = 0
+      for (;;) { n = n + 1  if (n == 3) break }
+      println(n)
+    `)).toEqual(["8", "3"])
+  })
+
+  it("iterates arrays and object fields", () => {
+    expect(run(`
+      struct P { optional x, optional y, }
+      for (v in [1, 2]) println(v)
+      for (i, v in ["a", "b"]) println(i, v)
+      let p = new P { x: 1, y: 2 }
+      for (k in p) println(k)
+      for (k, v in p) println(k, v)
+    `)).toEqual(["1", "2", `0 "a"`, `1 "b"`, `"x"`, `"y"`, `"x" 1`, `"y" 2`])
+  })
+
+  it("returns from inside loops, also values that used to read as missing", () => {
+    expect(run(`
+      fn find(xs, want) {
+        for (i, x in xs) if (x == want) return i
+        return -1
+      }
+      fn nothing() { while (true) { return null } }
+      fn missing(p) { return p.nope }
+      println(find([4, 5, 6], 6), find([], 1), nothing(), missing({}))
+    `)).toEqual(["2 -1 null null"])
+  })
+
+  it("skips elements deleted by a cascade the loop body caused", () => {
+    expect(run(`
+      struct Team { optional name, }
+      struct Player { mandatory team, optional name, }
+      struct Roster { compact players, }
+      let t = new Team {}
+      let a = new Player { team: t, name: "a" }
+      let b = new Player { team: t, name: "b" }
+      let c = new Player { team: new Team {}, name: "c" }
+      let r = new Roster { players: [a, b, c] }
+      for (p in r.players) {
+        println(p.name, len(r.players))
+        if (p == a) delete t
+      }
+      println(len(r.players))
+    `)).toEqual([`"a" 3`, `"c" 1`, "1"])
+  })
+
+  it("rejects jumps outside loops and labels on other statements", () => {
+    const parse = (src: string) => () => new Parser(src).parseProgram()
+    expect(parse(`break`)).toThrow(/'break' outside of a loop/)
+    expect(parse(`while (true) { fn f() { continue } }`)).toThrow(/'continue' outside of a loop/)
+    expect(parse(`a: while (true) { break b }`)).toThrow(/Unknown loop label 'b'/)
+    expect(parse(`a: { }`)).toThrow(/Only loops can be labeled/)
+    expect(parse(`a: while (true) { a: for (;;) {} }`)).toThrow(/Label 'a' is already used/)
+  })
+
+  it("types loop variables", () => {
+    const { diagnostics } = checkTypes(new Parser(`
+      for (i, s in ["a"]) { let n: number = i  let t: string = s }
+      for (x in 3) {}
+    `).parseProgram())
+    expect(diagnostics.map(d => [d.code, d.span?.line])).toEqual([["not-an-object", 3]])
+  })
+})
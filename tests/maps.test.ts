@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { checkTypes, typeToString } from "../src/analysis/types.js"
+import { run, runError } from "./helpers.js"
+
+describe("maps", () => {
+  it("reads, writes and enumerates entries", () => {
+    expect(run(`
+      let m = #{ "a": 1, "b c": "x", }
+      m["d"] = true
+      m["a"] = 2
+      println(len(m), m["a"], m["b c"], m["missing"], typeOf(m), typeOf({}))
+      println(has(m, "d"), has(m, "e"), remove(m, "d"), remove(m, "d"), len(m))
+      println(join(keys(m), ","), join(values(m), ","), entries(m)[1].key, entries(m)[1].value)
+      for (k, v in m) {
+        if (k == "a") remove(m, "b c")
+        m["late"] = 0
+        println(k, v)
+      }
+    `)).toEqual([
+      `3 2 "x" null "map" "object"`,
+      "true false true false 2",
+      `"a,b c" "2,x" "b c" "x"`,
+      `"a" 2`,
+    ])
+  })
+
+  it("applies the entry policy when a referenced object is deleted", () => {
+    expect(run(`
+      struct T { optional name, }
+      struct Holder { mandatory byName, }
+      let a = new T { name: "a" }
+      let b = new T { name: "b" }
+      let plain = #{ "a": a, "b": b }
+      let compact = #(compact){ "a": a, "b": b }
+      let strict = #(cascade){ "a": a }
+      let h = new Holder { byName: strict }
+      delete a
+      println(len(plain), plain["a"], keys(compact)[0], len(compact), isDeleted(strict), isDeleted(h))
+      compact["b"] = null
+      println(len(compact), has(compact, "b"))
+    `)).toEqual([`2 null "b" 1 true true`, "0 false"])
+    expect(runError(`struct T {}\nlet b = new T {}\nlet kept = #(restrict){ "b": b }\ndelete b`).message)
+      .toBe(`Cannot delete #1: it is referenced by entry "b" of map #2, which restricts deletion`)
+  })
+
+  it("takes policies and ownership from the field holding the map", () => {
+    expect(run(`
+      struct Item { optional name, }
+      struct Index { compact byName, }
+      struct Store { owned items: #{Item}, mandatory strict: #{Item}!, }
+      let x = new Item { name: "x" }
+      let y = new Item { name: "y" }
+      let idx = new Index { byName: #{ "x": x, "y": y } }
+      let s = new Store { items: #{}, strict: #{ "y": y } }
+      delete y
+      println(len(idx.byName), isDeleted(s))
+      let z = new Item {}
+      let t = new Store { items: #{ "z": z }, strict: #{} }
+      t.items["w"] = new Item { name: "w" }
+      let w = t.items["w"]
+      delete t
+      println(isDeleted(z), isDeleted(w))
+      let other = new Store { items: #{}, strict: #{} }
+      try { other.items["x"] = x  new Store { items: #{ "x": x }, strict: #{} } } catch (e) { println(e.code) }
+    `)).toEqual(["1 true", "true true", `"already-owned"`])
+  })
+
+  it("rejects keys that are not strings and field access", () => {
+    expect(runError(`let m = #{}\nm[1] = 2`).message).toBe("Map keys must be strings, got 1")
+    expect(runError(`let m = #{}\nprintln(m[null])`).code).toBe("invalid-target")
+    expect(runError(`let m = #{ "a": 1 }\nprintln(m.a)`).message).toBe(`Cannot read 'a' of a map, use ["a"]`)
+    expect(runError(`let m = #{}\nm.a = 1`).code).toBe("not-an-object")
+    expect(runError(`keys({ a: 1 })`).code).toBe("not-a-map")
+    expect(runError(`has(#{}, 1)`).code).toBe("invalid-argument")
+    expect(() => new Parser(`#{ a: 1 }`).parseProgram()).toThrow(/Map keys must be string literals/)
+    expect(() => new Parser(`#{ "a": 1, "a": 2 }`).parseProgram()).toThrow(/Duplicate map key "a"/)
+  })
+
+  it("survives snapshots and atomic rollbacks with its policy", () => {
+    const first = new Interpreter()
+    run(`
+      struct T { optional name, }
+      let a = new T { name: "a" }
+      let m = #(compact){ "a": a, "n": 1 }
+    `, { interp: first })
+    const second = new Interpreter({ verifyHeap: true })
+    second.restoreSnapshot(first.saveSnapshot())
+    expect(run(`
+      atomic { remove(m, "n")  delete a  abort }
+      println(len(m), m["a"].name)
+      delete a
+      println(keys(m)[0], len(m))
+    `, { interp: second })).toEqual([`2 "a"`, `"n" 1`])
+  })
+
+  it("types map literals, indexing and iteration", () => {
+    const ast = new Parser(`
+      struct P { optional ages: #{number}, }
+      let m = #{ "a": 1, "b": 2 }
+      let first = m["a"]
+      let p = new P { ages: m }
+      p.ages["c"] = "x"
+      for (k, v in m) { let n: number = v  let s: string = k }
+      let bad = m[1]
+    `).parseProgram()
+    const { diagnostics, types } = checkTypes(ast)
+    const letType = (i: number) => typeToString(types.get((ast.statements[i] as any).value)!)
+    expect([letType(1), letType(2)]).toEqual(["#{number}", "number?"])
+    expect(diagnostics.filter(d => d.severity === "error").map(d => [d.code, d.span?.line])).toEqual([["type-mismatch", 6], ["invalid-operand", 8]])
+  })
+})
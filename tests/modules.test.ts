@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest"
+import { resolve } from "node:path"
+import { Parser } from "../src/core/parser.js"
+import { CascError } from "../src/core/errors.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { capture } from "./helpers.js"
+
+function runFiles(files: Record<string, string>, entry = "main.casc"): string[] {
+  const sources = new Map(Object.entries(files).map(([name, src]) => [resolve("/project", name), src]))
+  const readModule = (path: string) => {
+    const src = sources.get(path)
+    if (src === undefined) throw new Error(`ENOENT ${path}`)
+    return src
+  }
+  const file = resolve("/project", entry)
+  return capture(() => new Interpreter({ readModule }).run(new Parser(readModule(file), file).parseProgram()))
+}
+
+describe("modules", () => {
+  it("imports exported structs, functions and lets", () => {
+    const out = runFiles({
+      "main.casc": `
+import { Node, make, answer } from "./lib/nodes.casc"
+let a = make(1)
+let b = new Node { id: 2 }
+println(a.id, b.id, answer)
+`,
+      "lib/nodes.casc": `
+export struct Node { mandatory id, }
+let offset = 10
+export fn make(n) { return new Node { id: n + offset } }
+export let answer = 42
+`,
+    })
+    expect(out).toEqual(["11 2 42"])
+  })
+
+  it("namespaces struct types per module", () => {
+    const out = runFiles({
+      "main.casc": `
+import { Node } from "./a.casc"
+import { make } from "./b.casc"
+let x = new Node { id: 1, tag: 1 }
+let y = make()
+x.tag = null
+y.id = null
+println(x.id, y)
+`,
+      "a.casc": `export struct Node { mandatory id, optional tag, }`,
+      "b.casc": `
+struct Node { optional id, mandatory tag, }
+export fn make() { return new Node { id: 1, tag: 2 } }
+`,
+    })
+    expect(out).toEqual(["1 [Object#2]"])
+  })
+
+  it("runs each module once", () => {
+    const out = runFiles({
+      "main.casc": `
+import { a } from "./a.casc"
+import { b } from "./b.casc"
+println(a, b)
+`,
+      "a.casc": `import { b } from "./b.casc"\nexport let a = b + 1`,
+      "b.casc": `println("loading b")\nexport let b = 1`,
+    })
+    expect(out).toEqual(["\"loading b\"", "2 1"])
+  })
+
+  it("lets fields and variables be named from", () => {
+    const out = runFiles({
+      "main.casc": `
+import { Edge } from "./edge.casc"
+let from = 1
+let e = new Edge { from: from, to: 2 }
+println(e.from, e.to)
+`,
+      "edge.casc": `export struct Edge { mandatory from, mandatory to, }`,
+    })
+    expect(out).toEqual(["1 2"])
+  })
+
+  it("keeps names a module assigns without declaring them inside the module", () => {
+    const out = runFiles({
+      "main.casc": `
+import { setup, read } from "./lib.casc"
+setup()
+println(read(), len([1]))
+try { println(counter) } catch (e) { println("no counter") }
+`,
+      "lib.casc": `
+export fn setup() { counter = 1  len = fn (x) => 42 }
+export fn read() { return counter + len([1]) }
+`,
+    })
+    expect(out).toEqual(["43 1", `"no counter"`])
+  })
+
+  it("reports import cycles, missing modules and missing exports", () => {
+    const codeOf = (files: Record<string, string>) => {
+      try { runFiles(files) } catch (e) { return (e as CascError).code }
+    }
+    expect(codeOf({ "main.casc": `import { x } from "./a.casc"`, "a.casc": `import { y } from "./main.casc"` })).toBe("import-cycle")
+    expect(codeOf({ "main.casc": `import { x } from "./nope.casc"` })).toBe("module-not-found")
+    expect(codeOf({ "main.casc": `import { x } from "./a.casc"`, "a.casc": `let x = 1` })).toBe("import-error")
+  })
+})
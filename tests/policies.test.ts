@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { CascError } from "../src/core/errors.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { checkCascades } from "../src/analysis/cascade.js"
+import { formatCascadeTrace } from "../src/runtime/heap.js"
+import { run } from "./helpers.js"
+
+const model = `
+struct User { mandatory id, }
+struct Post {
+  mandatory(nullify) author,
+  optional(cascade) editor,
+  restrict pinned,
+  compact tags,
+}
+let u = new User { id: 1 }
+let v = new User { id: 2 }
+let w = new User { id: 3 }
+let p = new Post { author: u, editor: v, pinned: w, tags: [u, w] }
+`
+
+describe("deletion policies", () => {
+  it("nullifies a mandatory(nullify) field and compacts array slots", () => {
+    expect(run(model + "u.id = null\nprintln(p, p.author, len(p.tags), p.tags[0] == w)")).toEqual(["[Object#4] null 1 true"])
+  })
+
+  it("deletes the owner through an optional(cascade) field", () => {
+    expect(run(model + "v.id = null\nprintln(p, u)")).toEqual(["[Deleted#4] [Object#1]"])
+  })
+
+  it("rejects a restricted deletion and leaves the heap unchanged", () => {
+    const interp = new Interpreter()
+    run(model, { interp })
+    const live = interp.heap.liveCount
+    let error: any
+    try { run("w.id = null", { interp }) } catch (e) { error = e }
+    expect(error).toBeInstanceOf(CascError)
+    expect([error.code, error.message]).toEqual(["restrict", "Cannot delete #3: it is referenced by #4.pinned, which restricts deletion"])
+    expect(interp.heap.liveCount).toBe(live)
+    expect(run("println(w.id, p.pinned == w, len(p.tags))", { interp })).toEqual(["3 true 2"])
+    // once the reference is gone the deletion goes through
+    expect(run("p.pinned = null\nw.id = null\nprintln(w, len(p.tags))", { interp })).toEqual(["[Deleted#3] 1"])
+  })
+
+  it("does not restrict references from objects deleted by the same cascade", () => {
+    const src = `
+struct Leaf { mandatory id, }
+struct Holder { mandatory leaf, restrict pinned, }
+let l = new Leaf { id: 1 }
+let h = new Holder { leaf: l, pinned: l }
+l.id = null
+println(l, h)
+`
+    expect(run(src)).toEqual(["[Deleted#1] [Deleted#2]"])
+  })
+
+  it("rejects unknown policies", () => {
+    expect(() => new Parser("struct A { mandatory(sometimes) x, }").parseProgram()).toThrow(/Unknown deletion policy 'sometimes'/)
+  })
+
+  it("follows policies in the blast radius", () => {
+    const { blastRadius } = checkCascades(new Parser(`
+struct User { mandatory id, }
+struct Post { mandatory(nullify) author: User, optional(cascade) editor: User, }
+`).parseProgram())
+    expect(blastRadius.get("User")).toEqual(["Post"])
+  })
+})
+
+describe("owned fields", () => {
+  const doc = `
+struct Para { optional text, optional doc, }
+struct Doc { mandatory title, owned paras: [Para], optional owned cover, }
+let p1 = new Para { text: 1 }
+let p2 = new Para { text: 2 }
+let d = new Doc { title: 1, paras: [p1, p2] }
+p1.doc = d
+`
+
+  it("deletes owned objects with their owner in one cascade", () => {
+    const traces: string[] = []
+    const interp = new Interpreter({ onCascade: t => traces.push(...formatCascadeTrace(t)) })
+    expect(run(doc + "let c = new Para {}\nd.cover = c\nd.title = null\nprintln(d, p1, p2, c)", { interp })).toEqual(["[Deleted#3] [Deleted#1] [Deleted#2] [Deleted#5]"])
+    expect(traces).toEqual([
+      "#3 Doc: mandatory field title set null",
+      "  #4 array: owner #3 deleted (field paras)",
+      "    #1 Para: owner #4 deleted (element 0)",
+      "    #2 Para: owner #4 deleted (element 1)",
+      "  #5 Para: owner #3 deleted (field cover)",
+    ])
+  })
+
+  it("rejects attaching an object owned elsewhere", () => {
+    const interp = new Interpreter()
+    run(doc + "let d2 = new Doc { title: 2, paras: [] }", { interp })
+    expect(() => run("d2.cover = p1", { interp })).toThrow(/Object #1 is already owned by array #4/)
+    expect(() => run("d2.paras[0] = p2", { interp })).toThrow(/Object #2 is already owned by array #4/)
+    expect(run("println(d2.cover, len(d2.paras))", { interp })).toEqual(["null 0"])
+  })
+
+  it("releases an object removed from its owner", () => {
+    const src = doc + `
+let c = new Para {}
+d.cover = c
+d.cover = null
+let d2 = new Doc { title: 2, paras: [], cover: c }
+d.title = null
+println(c, d2.cover == c)
+`
+    expect(run(src)).toEqual(["[Object#5] true"])
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest"
+import { Repl, isIncomplete } from "../src/repl.js"
+
+function session(lines: string[]): string[] {
+  const out: string[] = []
+  const spy = vi.spyOn(console, "log").mockImplementation((...args: any[]) => { out.push(args.join(" ")) })
+  try {
+    const repl = new Repl(line => out.push(line))
+    for (const line of lines) repl.feed(line)
+  } finally {
+    spy.mockRestore()
+  }
+  return out
+}
+
+describe("repl", () => {
+  it("detects unbalanced input", () => {
+    expect(isIncomplete("fn f() {")).toBe(true)
+    expect(isIncomplete("let s = \"{")).toBe(true)
+    expect(isIncomplete("let s = \"{\"")).toBe(false)
+    expect(isIncomplete("let s = `a ${")).toBe(true)
+    expect(isIncomplete("let s = `a\n")).toBe(true)
+    expect(isIncomplete("let s = `a ${1}`")).toBe(false)
+    expect(isIncomplete("println(1)")).toBe(false)
+  })
+
+  it("keeps bindings across inputs and echoes expression values", () => {
+    expect(session([
+      "struct N { mandatory id, optional next, }",
+      "let a = new N {",
+      "  id: 1",
+      "}",
+      "a.id",
+      "println(a.id + 1)",
+      "a.next",
+    ])).toEqual(["1", "2", "null"])
+  })
+
+  it("lists the heap, types and incoming references", () => {
+    expect(session([
+      "struct N { mandatory id, optional next, }",
+      "let a = new N { id: 1 }",
+      "let b = new N { id: 2, next: a }",
+      ":heap",
+      ":types",
+      "struct Doc { owned paras: [N]!(compact), weak seen, mandatory(nullify) unique key, compact tags, }",
+      ":types",
+      ":graph 1",
+      ":reset",
+      ":heap",
+    ])).toEqual([
+      "#1 N { id: 1 }",
+      "#2 N { id: 2, next: [Object#1] }",
+      "struct N { mandatory id, optional next }",
+      "struct N { mandatory id, optional next }",
+      "struct Doc { mandatory owned paras elements(compact), optional weak seen, mandatory(nullify) unique key, optional(compact) tags }",
+      "#1 N",
+      "  <- #2.next (N) optional",
+      "reset",
+      "(empty heap)",
+    ])
+  })
+
+  it("reports errors without losing state", () => {
+    const out = session(["let x = 1", "y", "x"])
+    expect(out[0]).toContain("error[undefined-variable]")
+    expect(out[out.length - 1]).toBe("1")
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run as runScript } from "./helpers.js"
+
+function run(src: string, snapshot?: string): { interp: Interpreter; out: string[] } {
+  const interp = new Interpreter()
+  if (snapshot) interp.restoreSnapshot(snapshot)
+  return { interp, out: runScript(src, { interp }) }
+}
+
+const model = `
+struct Owner { optional name, }
+struct Node { mandatory owner, optional next, }
+fn make(o) { return new Node { owner: o } }
+let o = new Owner { name: "o" }
+let a = make(o)
+let b = new Node { owner: o, next: a }
+let gone = new Owner {}
+delete gone
+`
+
+describe("snapshots", () => {
+  it("continues a program from a saved heap", () => {
+    const saved = run(model).interp.saveSnapshot()
+    const { out } = run(`
+      println(a.owner.name, isDeleted(gone), typeOf(gone))
+      let c = new Node { owner: o }
+      println(idOf(c) > idOf(b))
+      o = null
+      b.owner = null
+      println(isAlive(a), isAlive(b))
+    `, saved)
+    expect(out).toEqual([`"o" true "Owner"`, "true", "true false"])
+  })
+
+  it("restores objects whose mandatory fields were left out of new", () => {
+    const saved = run(`struct N { mandatory id, optional name, }\nlet n = new N { name: "n" }`).interp.saveSnapshot()
+    expect(run(`println(n.name, n.id)`, saved).out).toEqual([`"n" null`])
+  })
+
+  it("leaves declared functions out and refuses closures", () => {
+    const saved = JSON.parse(run(model).interp.saveSnapshot())
+    expect(Object.keys(saved.globals).sort()).toEqual(["Node", "Owner", "a", "b", "gone", "o"])
+    const { interp } = run(`fn outer() { fn inner() { return 1 } return inner }\nlet f = outer()`)
+    expect(() => interp.saveSnapshot()).toThrow(/variable 'f': function values cannot be saved/)
+  })
+
+  it("re-validates the cascade invariants on load", () => {
+    const saved = JSON.parse(run(model).interp.saveSnapshot())
+    const tamper = (edit: (s: any) => void) => {
+      const copy = JSON.parse(JSON.stringify(saved))
+      edit(copy)
+      return () => new Interpreter().restoreSnapshot(JSON.stringify(copy))
+    }
+    const node = (s: any) => s.objects.find((o: any) => o.type === "Node")
+    expect(tamper(s => { node(s).fields.owner = null; s.incoming[1] = ["3.owner"] })).toThrow(/null in mandatory field 'owner'/)
+    expect(tamper(s => { node(s).fields.owner = { ref: 99 } })).toThrow(/missing object #99/)
+    expect(tamper(s => { s.incoming = {} })).toThrow(/saved reverse graph/)
+    expect(tamper(s => { node(s).owner = 1 })).toThrow(/does not hold it in an owned slot/)
+    expect(tamper(s => { s.version = 2 })).toThrow(/Unsupported snapshot version 2/)
+  })
+})
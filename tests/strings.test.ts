@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { checkTypes } from "../src/analysis/types.js"
+import { run, runError } from "./helpers.js"
+
+describe("strings", () => {
+  it("concatenates, compares and measures strings", () => {
+    expect(run(`
+      let s = "ab" + "cd"
+      println(s, len(s), len(""), "a" < "b", "b" <= "a", s == "abcd")
+    `)).toEqual([`"abcd" 4 0 true false true`])
+  })
+
+  it("interpolates template strings", () => {
+    expect(run(`
+      struct P { optional name, optional tags, }
+      let p = new P { name: "ann", tags: ["x", "y"] }
+      let n = 2
+      println(\`hi \${p.name}, \${n + 1} tags: \${join(p.tags, ",")}\`)
+      println(\`nested \${ \`\${n}\` + "}" } \\\${raw} \${len(p.tags)} \${null}\`)
+      println(\`\`)
+    `)).toEqual([`"hi ann, 3 tags: x,y"`, `"nested 2} \${raw} 2 null"`, `""`])
+    expect(() => new Parser("`a ${}`").parseProgram()).toThrow(/Empty/)
+    expect(() => new Parser("`a ${1").parseProgram()).toThrow(/Unterminated/)
+  })
+
+  it("runs the string library", () => {
+    expect(run(`
+      let s = "  Hello, World  "
+      let t = trim(s)
+      println(t, upper(t), lower(t), substr(t, 7), substr(t, 0, 5))
+      println(indexOf(t, "World"), indexOf(t, "x"), replace("a-b-c", "-", "+"))
+      let parts = split("a,b,,c", ",")
+      println(len(parts), parts[2], join(parts, "|"), join([1, true, null], " "))
+      println(toString(1.5), toString(true), parseNumber(" 42 "), parseNumber("4x"), parseNumber(""))
+    `)).toEqual([
+      `"Hello, World" "HELLO, WORLD" "hello, world" "World" "Hello"`,
+      `7 -1 "a+b+c"`,
+      `4 "" "a|b||c" "1 true null"`,
+      `"1.5" "true" 42 null null`,
+    ])
+    expect(runError(`upper(1)`).message).toMatch(/upper/)
+    expect(runError(`substr("abc", 1.5)`).code).toBe("invalid-argument")
+  })
+
+  it("rejects arithmetic on mixed types", () => {
+    expect(runError(`let x = "a" + 1`).message).toBe("Operator '+' cannot be applied to string and number")
+    expect(runError(`let x = null + 1`).code).toBe("invalid-operand")
+    expect(runError(`let x = "a" * 2`).code).toBe("invalid-operand")
+    expect(runError(`let x = 1 < "2"`).code).toBe("invalid-operand")
+    expect(runError(`let x = -"a"`).code).toBe("invalid-operand")
+    expect(run(`try { let x = [] + 1 } catch (e) { println(e.code) }`)).toEqual([`"invalid-operand"`])
+  })
+
+  it("types string operators and builtins", () => {
+    const { diagnostics } = checkTypes(new Parser(`
+      let a: string = "x" + \`\${1}\`
+      let b: bool = "a" < "b"
+      let c: number = len(split("a b", " "))
+      let d = "a" - "b"
+      let e = 1 + "a"
+      let f: string = parseNumber("1")
+    `).parseProgram())
+    expect(diagnostics.map(d => [d.code, d.span?.line])).toEqual([["invalid-operand", 5], ["invalid-operand", 5], ["invalid-operand", 6], ["type-mismatch", 7]])
+  })
+})
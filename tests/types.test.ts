@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { checkTypes, typeToString } from "../src/analysis/types.js"
+import { checkCascades } from "../src/analysis/cascade.js"
+
+function errors(src: string) {
+  return checkTypes(new Parser(src).parseProgram()).diagnostics.filter(d => d.severity === "error").map(d => d.code)
+}
+
+describe("type checker", () => {
+  it("parses annotations on fields, lets and functions", () => {
+    const ast = new Parser(`
+struct Node { mandatory id: number, optional next: Node, }
+fn first(xs: [Node]): Node? { return xs[0] }
+let n: Node = new Node { id: 1 }
+`).parseProgram()
+    const fn = ast.statements[1] as any
+    expect(fn.params[0]).toMatchObject({ name: "xs", type: { kind: "ArrayType", element: { kind: "NamedType", name: "Node" } } })
+    expect(fn.returnType).toMatchObject({ kind: "NullableType", inner: { kind: "NamedType", name: "Node" } })
+    expect(errors("struct Node { mandatory id: number, optional next: Node, }\nlet n: Node = new Node { id: 1 }")).toEqual([])
+  })
+
+  it("reports calls to non-functions, indexing non-arrays and string arithmetic", () => {
+    expect(errors(`let n = 1\nn()`)).toEqual(["not-callable"])
+    expect(errors(`let s = "a"\nprint(s[0])`)).toEqual(["not-an-array"])
+    expect(errors(`let s = "a" + 1`)).toEqual(["invalid-operand"])
+  })
+
+  it("widens a variable assigned functions of different arities", () => {
+    expect(errors(`let f = fn (x) => x\nf = fn (x, y) => x\nf(1, 2)`)).toEqual([])
+    expect(errors(`let f = fn (x) => x\nf = fn (y) => y\nf(1, 2)`)).toEqual(["arity"])
+  })
+
+  it("reports unknown fields and types in struct literals", () => {
+    expect(errors(`struct P { mandatory x: number, }\nlet p = new P { x: 1, y: 2 }`)).toEqual(["unknown-field"])
+    expect(errors(`let q = new Missing { x: 1 }`)).toEqual(["unknown-type"])
+    expect(errors(`struct P { mandatory x: number, }\nlet p = new P { x: "one" }`)).toEqual(["type-mismatch"])
+  })
+
+  it("infers function results, including null when a path falls through", () => {
+    const ast = new Parser(`
+struct Node { mandatory id: number, }
+fn find(n: number) { if (n > 0) return new Node { id: n } }
+let r = find(1)
+`).parseProgram()
+    const { types } = checkTypes(ast)
+    const init = (ast.statements[2] as any).value
+    expect(typeToString(types.get(init)!)).toBe("Node?")
+  })
+
+  it("lets the cascade analysis see nullable values flowing into mandatory fields", () => {
+    const ast = new Parser(`
+struct Node { mandatory id: number, }
+struct Holder { mandatory node: Node, }
+fn pick(n: Node?): Node? { return n }
+let h = new Holder { node: new Node { id: 1 } }
+h.node = pick(null)
+`).parseProgram()
+    const typed = checkTypes(ast)
+    const { diagnostics, blastRadius } = checkCascades(ast, typed.types)
+    expect(diagnostics.filter(d => d.code === "mandatory-null").map(d => d.span?.line)).toEqual([6])
+    expect(blastRadius.get("Node")).toEqual(["Holder"])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run as runScript } from "./helpers.js"
+
+function run(src: string, interp = new Interpreter({ verifyHeap: true })): Interpreter {
+  runScript(src, { interp })
+  return interp
+}
+
+describe("heap verification", () => {
+  it("finds no violations after cascades, policies, ownership and aborts", () => {
+    const interp = run(`
+      struct Tag { optional name, }
+      struct Item { mandatory tag, mandatory(nullify) label, optional next, }
+      struct Box { owned items: [Item]!, compact tags, }
+      let t = new Tag { name: "t" }
+      let l = new Tag {}
+      let box = new Box { items: [new Item { tag: t, label: l }, new Item { tag: new Tag {}, label: l }], tags: [t, l] }
+      box.items[0].next = box.items[1]
+      delete l
+      atomic { t = null  box.items[0].tag = null  abort }
+      box.items[1].tag = null
+      let x = [1, 2]
+      x[4] = t
+      gc()
+    `)
+    expect(interp.heap.verify()).toEqual([])
+  })
+
+  it("reports fields written behind the heap's back", () => {
+    const interp = run(`
+      struct Node { optional next, }
+      let a = new Node {}
+      let b = new Node {}
+      let c = new Node {}
+      a.next = b
+    `, new Interpreter())
+    const [a, , c] = interp.heap.liveObjects()
+    a.fields.set("next", c.ref)
+    expect(interp.heap.verify().map(v => [v.kind, v.objectId])).toEqual([
+      ["missing-incoming", 1],
+      ["stale-incoming", 2],
+    ])
+    expect(interp.heap.verify()[0].message).toBe("#1.next refers to #3 but #3 has no incoming entry for it")
+  })
+
+  it("reports mandatory fields left out of new", () => {
+    const interp = run(`struct N { mandatory id, mandatory(nullify) tag, optional name, }\nlet n = new N {}`, new Interpreter())
+    expect(interp.heap.verify().map(v => v.message)).toEqual(["#1 is live with no value in mandatory field 'id'"])
+    expect(() => run(`struct N { mandatory id, }\nlet n = new N {}`)).toThrow(/#1 is live with no value in mandatory field 'id'/)
+  })
+
+  it("fails the first statement after the heap broke in --verify-heap mode", () => {
+    const interp = run(`struct Node { mandatory next, }\nlet a = new Node { next: [1] }`)
+    const a = interp.heap.liveObjects().find(o => o.typeName === "Node")!
+    const array = interp.heap.getObject(a.fields.get("next"))!
+    a.fields.set("next", null)
+    array.fields.set("7", 1)
+    expect(() => run(`let b = 1`, interp)).toThrow(/Heap invariants violated after this statement:\n  #1 is live with null in mandatory field 'next'\n  array #2 has element '7' outside its length 1\n  incoming entry 1.next of #2 does not match/)
+  })
+})
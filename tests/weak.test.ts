@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest"
+import { Parser } from "../src/core/parser.js"
+import { Interpreter } from "../src/runtime/interpreter.js"
+import { run as runScript } from "./helpers.js"
+
+function run(src: string): { out: string[]; interp: Interpreter } {
+  const interp = new Interpreter({ verifyHeap: true })
+  return { out: runScript(src, { interp }), interp }
+}
+
+describe("weak references", () => {
+  it("read as null once the target is deleted, without cascading", () => {
+    const { out, interp } = run(`
+      struct Node { mandatory id, weak parent, }
+      let root = new Node { id: 0 }
+      let child = new Node { id: 1, parent: root }
+      let cache = { last: weak(child) }
+      println(child.parent.id, cache.last.id)
+      println(len(wouldCascade(root)))
+      delete root
+      println(child.parent, isAlive(child))
+      child.id = null
+      println(cache.last)
+    `)
+    expect(out).toEqual(["0 1", "1", "null true", "null"])
+    expect(interp.heap.liveObjects().map(o => o.typeName)).toEqual([undefined, "__array__"])
+  })
+
+  it("do not keep objects alive for the collector", () => {
+    const { out } = run(`
+      struct Node { optional next, }
+      let w = weak(new Node {})
+      let keep = new Node {}
+      let also = weak(keep)
+      let xs = [weak(keep), weak(new Node {})]
+      println(isAlive(w), xs[1] == null)
+      let stats = gc()
+      println(stats.freed, w, xs[1], xs[0] == keep, also == keep)
+    `)
+    expect(out).toEqual(["true false", "2 null null true true"])
+  })
+
+  it("are rejected where a strong reference is required", () => {
+    expect(() => new Parser(`struct A { mandatory weak x, }`).parseProgram()).toThrow("A weak field cannot be mandatory")
+    expect(() => new Parser(`struct A { weak owned x, }`).parseProgram()).toThrow("A weak field cannot be owned")
+    expect(() => run(`struct A { mandatory x, }\nlet b = new A { x: 1 }\nb.x = weak(b)`)).toThrow("Cannot store a weak reference in mandatory field 'x'")
+  })
+})